@@ -1,27 +1,58 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/extensions/AccessControlEnumerableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 
+// pause scopes, combined as a bitmask, shared with the contracts that import this file
+uint8 constant PAUSE_CLAIMS = 1;
+uint8 constant PAUSE_GRANTS = 2;
+uint8 constant PAUSE_TRANSFERS = 4;
+uint8 constant PAUSE_ALL = PAUSE_CLAIMS | PAUSE_GRANTS | PAUSE_TRANSFERS;
+
 contract AccessControlContract is 
     Initializable,
-    AccessControlUpgradeable 
+    AccessControlEnumerableUpgradeable 
 {
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
     bytes32 public constant GRANTER_ROLE = keccak256("GRANTER_ROLE");
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant APPROVER_ROLE = keccak256("APPROVER_ROLE");
+
+    uint8 public pausedScopes;
+
+    event Paused(address indexed account, uint8 scopes);
+    event Unpaused(address indexed account, uint8 scopes);
+
+    error InvalidPauseScope(uint8 scopes);
 
     function initialize() public initializer {
-        __AccessControl_init();
+        __AccessControlEnumerable_init();
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(ADMIN_ROLE, msg.sender);
         _grantRole(GRANTER_ROLE, msg.sender);
         _grantRole(MINTER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(APPROVER_ROLE, msg.sender);
 
         _setRoleAdmin(ADMIN_ROLE, DEFAULT_ADMIN_ROLE);
         _setRoleAdmin(GRANTER_ROLE, ADMIN_ROLE);
         _setRoleAdmin(MINTER_ROLE, ADMIN_ROLE);
+        _setRoleAdmin(PAUSER_ROLE, ADMIN_ROLE);
+        _setRoleAdmin(APPROVER_ROLE, ADMIN_ROLE);
+    }
+
+    function pause(uint8 scopes) external onlyRole(PAUSER_ROLE) {
+        if (scopes == 0 || scopes & ~PAUSE_ALL != 0) revert InvalidPauseScope(scopes);
+        pausedScopes |= scopes;
+        emit Paused(msg.sender, scopes);
+    }
+
+    function unpause(uint8 scopes) external onlyRole(PAUSER_ROLE) {
+        if (scopes == 0 || scopes & ~PAUSE_ALL != 0) revert InvalidPauseScope(scopes);
+        pausedScopes &= ~scopes;
+        emit Unpaused(msg.sender, scopes);
     }
 
     function isAdmin(address account) external view returns (bool) {
@@ -35,4 +66,16 @@ contract AccessControlContract is
     function isMinter(address account) external view returns (bool) {
         return hasRole(MINTER_ROLE, account);
     }
+
+    function isPauser(address account) external view returns (bool) {
+        return hasRole(PAUSER_ROLE, account);
+    }
+
+    function isApprover(address account) external view returns (bool) {
+        return hasRole(APPROVER_ROLE, account);
+    }
+
+    function isPaused(uint8 scope) external view returns (bool) {
+        return pausedScopes & scope != 0;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "./AccessControlContract.sol";
+import "./VestingContract.sol";
+
+// maker-checker queue: a granter proposes a grant, class change or wallet migration, a different approver signs it off
+contract ApprovalQueueContract is Initializable {
+    enum ProposalStatus {
+        Pending,
+        Approved,
+        Executed,
+        Rejected
+    }
+
+    struct Proposal {
+        address proposer;
+        uint40 createdAt;
+        ProposalStatus status;
+        address approver;
+        bytes data;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    VestingContract public immutable vestingContract;
+
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    AccessControlContract public immutable accessControl;
+
+    // seconds a proposal stays open for approval and execution
+    uint32 public proposalLifetime;
+    Proposal[] private proposals;
+
+    uint256[48] private __gap;
+
+    event ProposalCreated(uint256 indexed proposalId, address indexed proposer, bytes data);
+    event ProposalApproved(uint256 indexed proposalId, address indexed approver);
+    event ProposalRejected(uint256 indexed proposalId, address indexed account);
+    event ProposalExecuted(uint256 indexed proposalId, address indexed executor);
+    event ProposalLifetimeSet(uint32 lifetime);
+
+    error ZeroAddress();
+    error UnsupportedAction(bytes4 selector);
+    error InvalidProposalId(uint256 proposalId);
+    error InvalidProposalStatus(uint256 proposalId, ProposalStatus status);
+    error ProposalExpired(uint256 proposalId);
+    error SelfApproval(uint256 proposalId);
+    error InvalidProposalLifetime();
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(
+        address vestingAddress,
+        address accessControlAddress
+    ) {
+        if (vestingAddress == address(0) || accessControlAddress == address(0)) revert ZeroAddress();
+        vestingContract = VestingContract(vestingAddress);
+        accessControl = AccessControlContract(accessControlAddress);
+        _disableInitializers();
+    }
+
+    modifier onlyAdmin() {
+        require(accessControl.isAdmin(msg.sender), "Only admin can perform this action");
+        _;
+    }
+
+    modifier onlyGranter() {
+        require(accessControl.isGranter(msg.sender), "Only granter can perform this action");
+        _;
+    }
+
+    modifier onlyApprover() {
+        require(accessControl.isApprover(msg.sender), "Only approver can perform this action");
+        _;
+    }
+
+    // write functions
+
+    function initialize(uint32 lifetime) external initializer {
+        if (lifetime == 0) revert InvalidProposalLifetime();
+        proposalLifetime = lifetime;
+    }
+
+    function propose(
+        bytes calldata data
+    ) external onlyGranter returns (uint256 proposalId) {
+        if (data.length < 4) revert UnsupportedAction(bytes4(0));
+        bytes4 selector = bytes4(data[:4]);
+        if (!_isSupportedAction(selector)) revert UnsupportedAction(selector);
+
+        proposalId = proposals.length;
+        proposals.push(Proposal({
+            proposer: msg.sender,
+            createdAt: uint40(block.timestamp),
+            status: ProposalStatus.Pending,
+            approver: address(0),
+            data: data
+        }));
+
+        emit ProposalCreated(proposalId, msg.sender, data);
+    }
+
+    function approve(uint256 proposalId) external onlyApprover {
+        Proposal storage proposal = _getOpenProposal(proposalId, ProposalStatus.Pending);
+        if (proposal.proposer == msg.sender) revert SelfApproval(proposalId);
+
+        proposal.status = ProposalStatus.Approved;
+        proposal.approver = msg.sender;
+        emit ProposalApproved(proposalId, msg.sender);
+    }
+
+    // approvers can turn down a proposal and proposers can withdraw their own, until it is executed
+    function reject(uint256 proposalId) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        require(
+            proposal.proposer == msg.sender || accessControl.isApprover(msg.sender),
+            "Only the proposer or an approver can reject"
+        );
+        if (proposal.status != ProposalStatus.Pending && proposal.status != ProposalStatus.Approved) {
+            revert InvalidProposalStatus(proposalId, proposal.status);
+        }
+
+        proposal.status = ProposalStatus.Rejected;
+        emit ProposalRejected(proposalId, msg.sender);
+    }
+
+    function execute(uint256 proposalId) external {
+        require(
+            accessControl.isGranter(msg.sender) || accessControl.isApprover(msg.sender),
+            "Only granter or approver can perform this action"
+        );
+        Proposal storage proposal = _getOpenProposal(proposalId, ProposalStatus.Approved);
+
+        // marked first so the call can't execute the same proposal again
+        proposal.status = ProposalStatus.Executed;
+        (bool success, bytes memory result) = address(vestingContract).call(proposal.data);
+        if (!success) {
+            // surface the vesting contract's own error
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+
+        emit ProposalExecuted(proposalId, msg.sender);
+    }
+
+    function setProposalLifetime(uint32 lifetime) external onlyAdmin {
+        if (lifetime == 0) revert InvalidProposalLifetime();
+        proposalLifetime = lifetime;
+        emit ProposalLifetimeSet(lifetime);
+    }
+
+    // read functions
+
+    function getProposal(uint256 proposalId) external view returns (Proposal memory) {
+        return _getProposal(proposalId);
+    }
+
+    function getProposalCount() external view returns (uint256) {
+        return proposals.length;
+    }
+
+    function isExpired(uint256 proposalId) public view returns (bool) {
+        return block.timestamp > uint256(_getProposal(proposalId).createdAt) + proposalLifetime;
+    }
+
+    function isSupportedAction(bytes4 selector) external pure returns (bool) {
+        return _isSupportedAction(selector);
+    }
+
+    // internal functions
+
+    function _getProposal(uint256 proposalId) internal view returns (Proposal storage) {
+        if (proposalId >= proposals.length) revert InvalidProposalId(proposalId);
+        return proposals[proposalId];
+    }
+
+    function _getOpenProposal(
+        uint256 proposalId,
+        ProposalStatus expectedStatus
+    ) internal view returns (Proposal storage proposal) {
+        proposal = _getProposal(proposalId);
+        if (proposal.status != expectedStatus) revert InvalidProposalStatus(proposalId, proposal.status);
+        if (isExpired(proposalId)) revert ProposalExpired(proposalId);
+    }
+
+    function _isSupportedAction(bytes4 selector) internal pure returns (bool) {
+        return selector == VestingContract.grantEquity.selector
+            || selector == VestingContract.grantEquityWithStartTime.selector
+            || selector == VestingContract.defineEquityClass.selector
+            || selector == VestingContract.defineLinearEquityClass.selector
+            || selector == VestingContract.defineCustomEquityClass.selector
+            || selector == VestingContract.setEquityClassBudget.selector
+            || selector == VestingContract.seedEquityPool.selector
+            || selector == VestingContract.retireEquityClass.selector
+            || selector == VestingContract.setApprovalQueue.selector
+            || selector == VestingContract.migrateGrants.selector;
+    }
+}
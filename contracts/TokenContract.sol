@@ -2,24 +2,82 @@
 pragma solidity ^0.8.0;
 
 import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20VotesUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
 import "./AccessControlContract.sol";
 
 contract TokenContract is 
     Initializable,
-    ERC20Upgradeable
+    ERC20Upgradeable,
+    ERC20PermitUpgradeable,
+    ERC20VotesUpgradeable
 {
     AccessControlContract private accessControl;
 
+    // compliance layer for private company stock, enforced once enabled by an admin
+    bool public transferRestrictionsEnabled;
+    mapping(address => bool) public allowlisted;
+    mapping(address => bool) public transferExempt;
+    mapping(address => uint32) public lockupPeriods;
+    mapping(address => uint40) public lockedUntil;
+
+    // granted tokens the vesting contract still holds for each employee, vested but unclaimed included.
+    // they add to the employee's votes only when unvestedVotesEnabled, a choice fixed before the first grant
+    address public vestingContract;
+    bool public unvestedVotesEnabled;
+    mapping(address => uint256) public unvestedBalances;
+    uint256 public totalUnvestedBalance;
+
+    uint256[42] private __gap;
+
+    event TransferRestrictionsUpdated(bool enabled);
+    event AllowlistUpdated(address indexed account, bool allowed);
+    event TransferExemptionUpdated(address indexed account, bool exempt);
+    event LockupPeriodUpdated(address indexed account, uint32 lockupPeriod);
+    event TokensLockedUp(address indexed account, uint40 lockedUntil);
+    event VestingContractSet(address indexed vestingContract);
+    event UnvestedVotesUpdated(bool enabled);
+    event UnvestedBalanceUpdated(address indexed employee, uint256 balance);
+
+    error ContractPaused(uint8 scope);
+    error SenderNotAllowlisted(address sender);
+    error RecipientNotAllowlisted(address recipient);
+    error TokensLocked(address holder, uint40 lockedUntil);
+    error ZeroAddress();
+    error UnvestedVotesLocked(uint256 totalUnvestedBalance);
+
+    modifier onlyAdmin() {
+        require(accessControl.isAdmin(msg.sender), "Only admin can perform this action");
+        _;
+    }
+
     function initialize(
         string memory name,
         string memory symbol,
         address accessControlAddress
     ) public initializer {
         __ERC20_init(name, symbol);
+        __ERC20Permit_init(name);
+        __ERC20Votes_init();
         accessControl = AccessControlContract(accessControlAddress);
     }
 
+    // tokens deployed before ERC-2612 and voting support have no permit domain and no total supply checkpoint.
+    // the upgrade runs this through the proxy admin in the same transaction, an admin can still run it later
+    function initializePermitAndVotes() external reinitializer(3) {
+        require(
+            msg.sender == ERC1967Utils.getAdmin() || accessControl.isAdmin(msg.sender),
+            "Only admin can perform this action"
+        );
+        __ERC20Permit_init(name());
+        if (_getTotalSupply() == 0) {
+            // recorded against an account that never delegates, so it moves no votes
+            _transferVotingUnits(address(0), address(this), totalSupply());
+        }
+    }
+
     function mint(
         address to,
         uint256 amount
@@ -27,4 +85,125 @@ contract TokenContract is
         require(accessControl.isMinter(msg.sender), "Only minter can mint tokens");
         _mint(to, amount);
     }
+
+    function setTransferRestrictionsEnabled(bool enabled) external onlyAdmin {
+        transferRestrictionsEnabled = enabled;
+        emit TransferRestrictionsUpdated(enabled);
+    }
+
+    function setAllowlisted(
+        address[] calldata accounts,
+        bool allowed
+    ) external onlyAdmin {
+        for (uint256 i = 0; i < accounts.length;) {
+            allowlisted[accounts[i]] = allowed;
+            emit AllowlistUpdated(accounts[i], allowed);
+            unchecked { ++i; }
+        }
+    }
+
+    // exempt accounts, such as the vesting contract and the company treasury, can send and receive freely
+    function setTransferExempt(
+        address account,
+        bool exempt
+    ) external onlyAdmin {
+        transferExempt[account] = exempt;
+        emit TransferExemptionUpdated(account, exempt);
+    }
+
+    function setLockupPeriod(
+        address account,
+        uint32 lockupPeriod
+    ) external onlyAdmin {
+        lockupPeriods[account] = lockupPeriod;
+        emit LockupPeriodUpdated(account, lockupPeriod);
+    }
+
+    function setVestingContract(address account) external onlyAdmin {
+        if (account == address(0)) revert ZeroAddress();
+        vestingContract = account;
+        emit VestingContractSet(account);
+    }
+
+    // switching after balances are tracked would leave delegates' checkpoints out of step with their units
+    function setUnvestedVotesEnabled(bool enabled) external onlyAdmin {
+        if (totalUnvestedBalance != 0) revert UnvestedVotesLocked(totalUnvestedBalance);
+        unvestedVotesEnabled = enabled;
+        emit UnvestedVotesUpdated(enabled);
+    }
+
+    // the vesting contract reports an employee's remaining grant tokens after every grant, claim and termination
+    function updateUnvestedBalance(
+        address employee,
+        uint256 balance
+    ) external {
+        require(msg.sender == vestingContract, "Only the vesting contract can update unvested balances");
+        uint256 previousBalance = unvestedBalances[employee];
+        if (balance == previousBalance) return;
+
+        unvestedBalances[employee] = balance;
+        totalUnvestedBalance = totalUnvestedBalance - previousBalance + balance;
+
+        if (unvestedVotesEnabled) {
+            address delegatee = delegates(employee);
+            if (balance > previousBalance) {
+                _moveDelegateVotes(address(0), delegatee, balance - previousBalance);
+            } else {
+                _moveDelegateVotes(delegatee, address(0), previousBalance - balance);
+            }
+        }
+        emit UnvestedBalanceUpdated(employee, balance);
+    }
+
+    function nonces(
+        address owner
+    ) public view override(ERC20PermitUpgradeable, NoncesUpgradeable) returns (uint256) {
+        return super.nonces(owner);
+    }
+
+    // reverts with the same error a transfer from `from` to `to` would hit
+    function checkTransfer(
+        address from,
+        address to
+    ) external view {
+        _checkTransfer(from, to);
+    }
+
+    function _checkTransfer(
+        address from,
+        address to
+    ) internal view {
+        if (accessControl.isPaused(PAUSE_TRANSFERS)) revert ContractPaused(PAUSE_TRANSFERS);
+        if (!transferRestrictionsEnabled || transferExempt[from]) return;
+
+        if (lockedUntil[from] > block.timestamp) revert TokensLocked(from, lockedUntil[from]);
+        if (transferExempt[to]) return;
+
+        if (!allowlisted[from]) revert SenderNotAllowlisted(from);
+        if (!allowlisted[to]) revert RecipientNotAllowlisted(to);
+    }
+
+    function _getVotingUnits(address account) internal view override returns (uint256) {
+        uint256 units = super._getVotingUnits(account);
+        return unvestedVotesEnabled ? units + unvestedBalances[account] : units;
+    }
+
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override(ERC20Upgradeable, ERC20VotesUpgradeable) {
+        // minting and burning are not transfers, so they skip the pause and restrictions
+        if (from != address(0) && to != address(0)) {
+            _checkTransfer(from, to);
+
+            // tokens claimed from the vesting contract or sent by the treasury start the holder's lockup
+            if (transferRestrictionsEnabled && transferExempt[from] && !transferExempt[to] && lockupPeriods[to] != 0) {
+                uint40 unlockTime = uint40(block.timestamp) + lockupPeriods[to];
+                lockedUntil[to] = unlockTime;
+                emit TokensLockedUp(to, unlockTime);
+            }
+        }
+        super._update(from, to, value);
+    }
 }
\ No newline at end of file
@@ -4,6 +4,8 @@ pragma solidity ^0.8.0;
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 import "./TokenContract.sol";
 import "./AccessControlContract.sol";
 
@@ -12,11 +14,23 @@ contract VestingContract is
     ReentrancyGuardUpgradeable,
     Ownable2StepUpgradeable   
 {  
+    enum ScheduleType {
+        Step,
+        Linear,
+        Custom
+    }
+
     struct EquityClass {
         uint96 tokenCount;   
         uint32 cliffPeriod;  
         uint32 vestingPeriod;
         uint16 vestingPercentage;
+        ScheduleType scheduleType;
+    }
+
+    struct VestingMilestone {
+        uint32 offset;
+        uint16 cumulativePercentage;
     }
 
     struct EmployeeEquity {
@@ -25,6 +39,13 @@ contract VestingContract is
         uint96 totalTokens;
         uint40 startTime;
         uint96 claimedTokens;
+        uint40 terminationTime;
+    }
+
+    struct EquityPool {
+        uint96 budget;
+        uint96 allocated;
+        bool retired;
     }
 
     /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
@@ -34,6 +55,7 @@ contract VestingContract is
     AccessControlContract public immutable accessControl;
     
     mapping(bytes32 => EquityClass) private equityClasses;        
+    // single grant per employee from before grant IDs, see migrateLegacyGrant
     mapping(address => EmployeeEquity) private employeeEquities;      
     mapping(address => uint96) private totalReleasedTokens;
     
@@ -41,12 +63,59 @@ contract VestingContract is
     bytes32[] private equityClassNames;                       
 
     uint16 public constant BASIS_POINTS = 10000;
+    uint256 public constant MAX_SCHEDULE_MILESTONES = 120;
+    // keeps a distribution within the block gas limit even for employees with several grants
+    uint256 public constant MAX_DISTRIBUTION_BATCH = 100;
+
+    // EIP-712 domain and type for claims a relayer submits on an employee's behalf
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant CLAIM_REQUEST_TYPEHASH =
+        keccak256("ClaimRequest(address employee,uint256 nonce,uint256 deadline)");
 
-    uint256[49] private __gap;
+    mapping(address => EmployeeEquity[]) private employeeGrants;
+    mapping(bytes32 => VestingMilestone[]) private customSchedules;
+
+    // version 0 of a class lives in equityClasses and customSchedules, redefinitions append versions here
+    mapping(bytes32 => EquityClass[]) private equityClassVersions;
+    mapping(bytes32 => mapping(uint32 => VestingMilestone[])) private customScheduleVersions;
+    mapping(bytes32 => EquityPool) private equityPools;
+    // terms version each grant was issued under, kept outside EmployeeEquity so the grant arrays keep their layout
+    mapping(address => mapping(uint256 => uint32)) private grantTermsVersions;
+
+    // company-wide totals over all grants, kept up to date on every grant, claim and termination
+    uint96 private totalGrantedTokens;
+    uint96 private totalClaimedTokens;
+
+    // how far before or after the time of granting a vesting start may be set
+    uint32 private maxStartBackdate;
+    uint32 private maxStartForwardDate;
+    // tokens vested early by acceleration events, taken off the end of the grant's schedule
+    mapping(address => mapping(uint256 => uint96)) private grantAcceleratedTokens;
+    // when required, grants and class changes only go through the two-person approval queue
+    address private approvalQueue;
+    bool private approvalRequired;
+    mapping(address => uint256) private claimNonces;
+    // wallets whose grants were moved to a new address, they can't hold grants again
+    mapping(address => address) public migratedWallets;
+
+    uint256[38] private __gap;
 
     event EquityClassDefined(bytes32 indexed name, uint96 tokenCount);
-    event EquityGranted(address indexed employee, bytes32 indexed equityClassName, uint40 grantTime);
-    event TokensClaimed(address indexed employee, uint96 amount);
+    event EquityGranted(address indexed employee, bytes32 indexed equityClassName, uint256 grantId, uint40 grantTime);
+    event TokensClaimed(address indexed employee, uint256 indexed grantId, uint96 amount);
+    event EmployeeTerminated(address indexed employee, uint40 terminationTime, uint96 vestedTokens, uint96 forfeitedTokens);
+    event LegacyGrantMigrated(address indexed employee, uint256 grantId);
+    event EquityClassVersioned(bytes32 indexed name, uint32 version);
+    event EquityClassBudgetSet(bytes32 indexed name, uint96 budget);
+    event EquityClassRetired(bytes32 indexed name);
+    event StartTimeLimitsSet(uint32 maxBackdate, uint32 maxForwardDate);
+    event GrantStartTimeSet(address indexed employee, uint256 indexed grantId, uint40 startTime);
+    event VestedTokensDistributed(address indexed employee, uint96 amount);
+    event ClaimRelayed(address indexed employee, address indexed relayer, uint256 nonce);
+    event ApprovalQueueSet(address indexed queue, bool required);
+    event VestingAccelerated(address indexed employee, uint256 indexed grantId, uint96 acceleratedTokens, uint16 percentage);
+    event GrantsMigrated(address indexed from, address indexed to, uint256 grantCount);
 
     error InvalidEquityClass(string reason);
     error NoEquityGranted(address employee);
@@ -55,6 +124,21 @@ contract VestingContract is
     error CliffPeriodNotMet(uint256 remainingTime);
     error ZeroAddress();
     error InvalidVestingParameters();
+    error EmployeeAlreadyTerminated(address employee);
+    error InvalidTerminationTime(uint256 terminationTime);
+    error InvalidGrantId(address employee, uint256 grantId);
+    error ContractPaused(uint8 scope);
+    error RetiredEquityClass(bytes32 name);
+    error PoolBudgetExceeded(bytes32 name, uint256 requested, uint256 available);
+    error InvalidTermsVersion(bytes32 name, uint32 version);
+    error InvalidStartTime(uint256 startTime);
+    error BatchTooLarge(uint256 size, uint256 maxSize);
+    error ApprovalRequired();
+    error SignatureExpired(uint256 deadline);
+    error InvalidSignature();
+    error WalletMigrated(address wallet);
+    error DestinationHasGrants(address wallet);
+    error LegacyGrantNotMigrated(address employee);
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor(
@@ -77,6 +161,16 @@ contract VestingContract is
         _;
     }
 
+    modifier whenApproved() {
+        _requireApproval();
+        _;
+    }
+
+    modifier whenNotPaused(uint8 scope) {
+        _requireNotPaused(scope);
+        _;
+    }
+
     // write functions
 
     function initialize() external initializer {
@@ -90,7 +184,7 @@ contract VestingContract is
         uint32 cliffPeriod,
         uint32 vestingPeriod,
         uint16 vestingPercentage
-    ) external onlyAdmin {
+    ) external onlyAdmin whenApproved whenNotPaused(PAUSE_GRANTS) {
         if (vestingPercentage > 100) revert InvalidEquityClass("Percentage exceeds 100%");
         if (vestingPercentage == 0) revert InvalidEquityClass("Percentage cannot be zero");
         if (tokenCount == 0) revert InvalidEquityClass("Token count cannot be zero");
@@ -98,136 +192,359 @@ contract VestingContract is
         
         uint16 vestingPercentageBP = vestingPercentage * 100;
         
-        equityClasses[name] = EquityClass({
+        _storeEquityClass(name, EquityClass({
             tokenCount: tokenCount,
             cliffPeriod: cliffPeriod,
             vestingPeriod: vestingPeriod,
-            vestingPercentage: vestingPercentageBP
-        });
-        
-        if (equityClassIndex[name] == 0) {
-            equityClassNames.push(name);
-            equityClassIndex[name] = equityClassNames.length;
+            vestingPercentage: vestingPercentageBP,
+            scheduleType: ScheduleType.Step
+        }));
+    }
+
+    function defineLinearEquityClass(
+        bytes32 name,
+        uint96 tokenCount,
+        uint32 cliffPeriod,
+        uint32 vestingDuration
+    ) external onlyAdmin whenApproved whenNotPaused(PAUSE_GRANTS) {
+        if (tokenCount == 0) revert InvalidEquityClass("Token count cannot be zero");
+        if (vestingDuration == 0) revert InvalidEquityClass("Vesting duration cannot be zero");
+        if (cliffPeriod > vestingDuration) revert InvalidEquityClass("Cliff exceeds vesting duration");
+
+        _storeEquityClass(name, EquityClass({
+            tokenCount: tokenCount,
+            cliffPeriod: cliffPeriod,
+            vestingPeriod: vestingDuration,
+            vestingPercentage: 0,
+            scheduleType: ScheduleType.Linear
+        }));
+    }
+
+    function defineCustomEquityClass(
+        bytes32 name,
+        uint96 tokenCount,
+        uint32[] calldata offsets,
+        uint16[] calldata cumulativeBasisPoints
+    ) external onlyAdmin whenApproved whenNotPaused(PAUSE_GRANTS) {
+        if (tokenCount == 0) revert InvalidEquityClass("Token count cannot be zero");
+        if (offsets.length == 0 || offsets.length > MAX_SCHEDULE_MILESTONES) revert InvalidVestingParameters();
+        if (offsets.length != cumulativeBasisPoints.length) revert InvalidVestingParameters();
+        if (cumulativeBasisPoints[offsets.length - 1] != BASIS_POINTS) {
+            revert InvalidEquityClass("Schedule must end at 100%");
         }
-        
-        emit EquityClassDefined(name, tokenCount);
+
+        VestingMilestone[] storage milestones = _milestones(name, _nextTermsVersion(name));
+        for (uint256 i = 0; i < offsets.length;) {
+            // milestones must move forward in time and never reduce the vested share
+            if (i > 0 && offsets[i] <= offsets[i - 1]) revert InvalidVestingParameters();
+            if (i > 0 && cumulativeBasisPoints[i] < cumulativeBasisPoints[i - 1]) revert InvalidVestingParameters();
+            if (cumulativeBasisPoints[i] == 0) revert InvalidVestingParameters();
+
+            milestones.push(VestingMilestone({
+                offset: offsets[i],
+                cumulativePercentage: cumulativeBasisPoints[i]
+            }));
+            unchecked { ++i; }
+        }
+
+        // the first milestone acts as the cliff and the last one as the full vesting time
+        _storeEquityClass(name, EquityClass({
+            tokenCount: tokenCount,
+            cliffPeriod: offsets[0],
+            vestingPeriod: offsets[offsets.length - 1],
+            vestingPercentage: 0,
+            scheduleType: ScheduleType.Custom
+        }));
     }
 
     function grantEquity(
         address employee,
         bytes32 equityClassName
-    ) external onlyGranter {
-        if (employee == address(0)) revert ZeroAddress();
-        
-        EquityClass storage equityClass = equityClasses[equityClassName];
-        if (equityClass.tokenCount == 0) revert InvalidEquityClass("Equity class does not exist");
-        if (employeeEquities[employee].equityClass != bytes32(0)) revert InvalidEquityClass("Employee already has equity granted");
-        
-        employeeEquities[employee] = EmployeeEquity({
-            employee: employee,
-            equityClass: equityClassName,
-            totalTokens: equityClass.tokenCount,
-            startTime: uint40(block.timestamp),
-            claimedTokens: 0
-        });
-        
-        emit EquityGranted(employee, equityClassName, uint40(block.timestamp));
+    ) external onlyGranter whenApproved whenNotPaused(PAUSE_GRANTS) returns (uint256 grantId) {
+        return _grantEquity(employee, equityClassName, uint40(block.timestamp));
     }
 
-    function calculateVestedTokens(address employee) public view returns (uint256) {
-        EmployeeEquity storage equity = employeeEquities[employee];
-        if (equity.equityClass == bytes32(0)) {
-            return 0;
+    // offer letters set a vesting commencement date that can differ from when the grant is recorded
+    function grantEquityWithStartTime(
+        address employee,
+        bytes32 equityClassName,
+        uint40 startTime
+    ) external onlyGranter whenApproved whenNotPaused(PAUSE_GRANTS) returns (uint256 grantId) {
+        if (uint256(startTime) + maxStartBackdate < block.timestamp || startTime > block.timestamp + maxStartForwardDate) {
+            revert InvalidStartTime(startTime);
         }
 
-        EquityClass storage equityClass = equityClasses[equity.equityClass];
-        uint256 elapsedTime = block.timestamp - equity.startTime;
+        grantId = _grantEquity(employee, equityClassName, startTime);
+        emit GrantStartTimeSet(employee, grantId, startTime);
+    }
 
-        // check if cliff period has passed
-        if (elapsedTime < equityClass.cliffPeriod) {
-            return 0;
-        }
+    function setStartTimeLimits(
+        uint32 maxBackdate,
+        uint32 maxForwardDate
+    ) external onlyAdmin {
+        maxStartBackdate = maxBackdate;
+        maxStartForwardDate = maxForwardDate;
+        emit StartTimeLimitsSet(maxBackdate, maxForwardDate);
+    }
 
-        // calculate number of complete vesting periods
-        uint256 vestingTime = elapsedTime - equityClass.cliffPeriod;
-        uint256 completedPeriods = vestingTime / equityClass.vestingPeriod;
-        
-        // calculate vested percentage including cliff and completed periods
-        uint256 vestedPercentage = equityClass.vestingPercentage + (completedPeriods * equityClass.vestingPercentage);
-        if (vestedPercentage > BASIS_POINTS) {
-            vestedPercentage = BASIS_POINTS;
+    // vests a percentage (in basis points) of each grant's currently unvested tokens right away
+    function accelerateGrants(
+        address[] calldata employees,
+        uint256[] calldata grantIds,
+        uint16 percentage
+    ) external onlyAdmin whenNotPaused(PAUSE_GRANTS) {
+        if (employees.length != grantIds.length) revert InvalidVestingParameters();
+        if (percentage == 0 || percentage > BASIS_POINTS) revert InvalidVestingParameters();
+
+        for (uint256 i = 0; i < employees.length;) {
+            EmployeeEquity storage equity = _getGrant(employees[i], grantIds[i]);
+            if (equity.terminationTime != 0) revert EmployeeAlreadyTerminated(employees[i]);
+
+            uint256 unvestedTokens = equity.totalTokens - _vestedAmountAt(equity, grantIds[i], block.timestamp);
+            uint96 acceleratedTokens = uint96((unvestedTokens * percentage) / BASIS_POINTS);
+            grantAcceleratedTokens[employees[i]][grantIds[i]] += acceleratedTokens;
+
+            emit VestingAccelerated(employees[i], grantIds[i], acceleratedTokens, percentage);
+            unchecked { ++i; }
         }
+    }
 
-        // calculate total vested tokens
-        uint256 totalVestedAmount = (equity.totalTokens * vestedPercentage) / BASIS_POINTS;
-        
-        // if already claimed more than currently vested, return 0
-        if (equity.claimedTokens >= totalVestedAmount) {
-            return 0;
+    function setEquityClassBudget(
+        bytes32 name,
+        uint96 budget
+    ) external onlyAdmin whenApproved whenNotPaused(PAUSE_GRANTS) {
+        if (equityClassIndex[name] == 0) revert InvalidEquityClass("Equity class does not exist");
+        if (budget < equityPools[name].allocated) revert InvalidEquityClass("Budget below allocated tokens");
+
+        equityPools[name].budget = budget;
+        emit EquityClassBudgetSet(name, budget);
+    }
+
+    // classes from before pool budgets have neither a budget nor their grants counted, the upgrade sets both once
+    function seedEquityPool(
+        bytes32 name,
+        uint96 budget,
+        uint96 allocated
+    ) external onlyAdmin whenApproved whenNotPaused(PAUSE_GRANTS) {
+        if (equityClassIndex[name] == 0) revert InvalidEquityClass("Equity class does not exist");
+        EquityPool storage pool = equityPools[name];
+        if (pool.budget != 0) revert InvalidEquityClass("Pool budget already set");
+        if (budget < allocated) revert InvalidEquityClass("Budget below allocated tokens");
+
+        pool.budget = budget;
+        pool.allocated = allocated;
+        emit EquityClassBudgetSet(name, budget);
+    }
+
+    function retireEquityClass(bytes32 name) external onlyAdmin whenApproved {
+        if (equityClassIndex[name] == 0) revert InvalidEquityClass("Equity class does not exist");
+        if (equityPools[name].retired) revert RetiredEquityClass(name);
+
+        equityPools[name].retired = true;
+        emit EquityClassRetired(name);
+    }
+
+    // once approvals are required, only the queue can change this, so turning them off needs a second person too
+    function setApprovalQueue(
+        address queue,
+        bool required
+    ) external onlyAdmin whenApproved {
+        if (required && queue == address(0)) revert ZeroAddress();
+        approvalQueue = queue;
+        approvalRequired = required;
+        emit ApprovalQueueSet(queue, required);
+    }
+
+    function migrateLegacyGrant(address employee) external onlyAdmin whenNotPaused(PAUSE_GRANTS) returns (uint256 grantId) {
+        EmployeeEquity storage legacyEquity = employeeEquities[employee];
+        if (legacyEquity.equityClass == bytes32(0)) revert NoEquityGranted(employee);
+
+        grantId = employeeGrants[employee].length;
+        employeeGrants[employee].push(legacyEquity);
+        totalGrantedTokens += legacyEquity.totalTokens;
+        totalClaimedTokens += legacyEquity.claimedTokens;
+        // not checked against the budget: the grant was issued before budgets existed and can't be refused now,
+        // a pool pushed past its budget this way blocks new grants until the budget is raised
+        equityPools[legacyEquity.equityClass].allocated += legacyEquity.totalTokens;
+        delete employeeEquities[employee];
+        _syncUnvestedBalance(employee);
+
+        emit LegacyGrantMigrated(employee, grantId);
+    }
+
+    // wallet recovery: grants keep their IDs, class, start time and claimed amount at the new address
+    function migrateGrants(address from, address to) external whenNotPaused(PAUSE_GRANTS) {
+        // moving someone's equity always takes a proposer and a different approver, whatever the approval setting
+        if (msg.sender != approvalQueue) revert ApprovalRequired();
+        if (to == address(0)) revert ZeroAddress();
+        if (migratedWallets[to] != address(0)) revert WalletMigrated(to);
+
+        EmployeeEquity[] storage grants = employeeGrants[from];
+        EmployeeEquity[] storage movedGrants = employeeGrants[to];
+        if (movedGrants.length != 0 || employeeEquities[to].equityClass != bytes32(0)) revert DestinationHasGrants(to);
+        // a legacy grant would be stranded at the blocked wallet
+        if (employeeEquities[from].equityClass != bytes32(0)) revert LegacyGrantNotMigrated(from);
+        uint256 grantCount = grants.length;
+        if (grantCount == 0) revert NoEquityGranted(from);
+
+        for (uint256 i = 0; i < grantCount;) {
+            movedGrants.push(grants[i]);
+            movedGrants[i].employee = to;
+            grantTermsVersions[to][i] = grantTermsVersions[from][i];
+            grantAcceleratedTokens[to][i] = grantAcceleratedTokens[from][i];
+            unchecked { ++i; }
         }
-        
-        return totalVestedAmount - equity.claimedTokens;
+        delete employeeGrants[from];
+        migratedWallets[from] = to;
+
+        _syncUnvestedBalance(from);
+        _syncUnvestedBalance(to);
+        emit GrantsMigrated(from, to, grantCount);
     }
 
-    function getNextVestingAmount(address employee) external view returns (uint256 amount, uint256 unlockTime) {
-        EmployeeEquity storage equity = employeeEquities[employee];
-        if (equity.equityClass == bytes32(0)) {
-            return (0, 0);
+    function terminateEmployee(
+        address employee,
+        uint40 terminationTime
+    ) external onlyAdmin {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        if (grants.length == 0) revert NoEquityGranted(employee);
+        if (terminationTime == 0 || terminationTime > block.timestamp) {
+            revert InvalidTerminationTime(terminationTime);
         }
 
-        EquityClass storage equityClass = equityClasses[equity.equityClass];
-        uint256 elapsedTime = block.timestamp - equity.startTime;
+        bool terminatedAny;
+        uint256 totalVested;
+        uint256 totalForfeited;
+        for (uint256 i = 0; i < grants.length;) {
+            EmployeeEquity storage equity = grants[i];
+            if (equity.terminationTime == 0) {
+                (uint256 vestedTokens, uint256 forfeitedTokens) = _previewTermination(equity, i, terminationTime);
 
-        // if cliff period hasn't passed yet
-        if (elapsedTime < equityClass.cliffPeriod) {
-            // first batch after cliff
-            uint256 firstBatch = (equity.totalTokens * equityClass.vestingPercentage) / BASIS_POINTS;
-            return (firstBatch, equity.startTime + equityClass.cliffPeriod);
+                // shrink the grant to what had vested so the remainder returns to the company
+                equity.totalTokens = uint96(vestedTokens);
+                equity.terminationTime = terminationTime;
+                _releaseFromPool(equity.equityClass, forfeitedTokens);
+
+                terminatedAny = true;
+                totalVested += vestedTokens;
+                totalForfeited += forfeitedTokens;
+            }
+            unchecked { ++i; }
         }
 
-        // calculate current and next vesting milestones
-        uint256 vestingTime = elapsedTime - equityClass.cliffPeriod;
-        uint256 currentPeriods = 1 + (vestingTime / equityClass.vestingPeriod);
-        uint256 totalVestedPercentage = currentPeriods * equityClass.vestingPercentage;
+        if (!terminatedAny) revert EmployeeAlreadyTerminated(employee);
+        totalGrantedTokens -= uint96(totalForfeited);
+        _syncUnvestedBalance(employee);
 
-        // if fully vested
-        if (totalVestedPercentage >= BASIS_POINTS) {
-            return (0, 0);
+        emit EmployeeTerminated(employee, terminationTime, uint96(totalVested), uint96(totalForfeited));
+    }
+
+    function calculateVestedTokens(address employee) public view returns (uint256 unclaimedTokens) {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        for (uint256 i = 0; i < grants.length;) {
+            unclaimedTokens += _unclaimedTokens(grants[i], i);
+            unchecked { ++i; }
+        }
+    }
+
+    function calculateGrantVestedTokens(
+        address employee,
+        uint256 grantId
+    ) public view returns (uint256) {
+        return _unclaimedTokens(_getGrant(employee, grantId), grantId);
+    }
+
+    function getNextVestingAmount(address employee) external view returns (uint256 amount, uint256 unlockTime) {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        for (uint256 i = 0; i < grants.length;) {
+            (uint256 grantAmount, uint256 grantUnlockTime) = _nextVesting(grants[i], i);
+
+            // report the earliest upcoming unlock, summing grants that unlock together
+            if (grantUnlockTime != 0) {
+                if (unlockTime == 0 || grantUnlockTime < unlockTime) {
+                    amount = grantAmount;
+                    unlockTime = grantUnlockTime;
+                } else if (grantUnlockTime == unlockTime) {
+                    amount += grantAmount;
+                }
+            }
+            unchecked { ++i; }
         }
+    }
 
-        // calculate next batch
-        uint256 batchAmount = (equity.totalTokens * equityClass.vestingPercentage) / BASIS_POINTS;
-        uint256 nextUnlockTime = equity.startTime + equityClass.cliffPeriod + (currentPeriods * equityClass.vestingPeriod);
+    function getNextGrantVestingAmount(
+        address employee,
+        uint256 grantId
+    ) external view returns (uint256 amount, uint256 unlockTime) {
+        return _nextVesting(_getGrant(employee, grantId), grantId);
+    }
 
-        return (batchAmount, nextUnlockTime);
+    function claimVestedTokens() external nonReentrant whenNotPaused(PAUSE_CLAIMS) {
+        _transferClaimed(msg.sender, _claimAll(msg.sender));
     }
 
-    function claimVestedTokens() external nonReentrant {
-        EmployeeEquity storage equity = employeeEquities[msg.sender];
-        if (equity.equityClass == bytes32(0)) revert NoEquityGranted(msg.sender);
-        
-        EquityClass storage equityClass = equityClasses[equity.equityClass];
-        uint256 elapsedTime = block.timestamp - equity.startTime;
+    // lets a relayer pay the gas for an employee's claim, the tokens still go to the employee
+    function claimVestedTokensWithSignature(
+        address employee,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused(PAUSE_CLAIMS) {
+        if (block.timestamp > deadline) revert SignatureExpired(deadline);
+
+        uint256 nonce = claimNonces[employee]++;
+        bytes32 structHash = keccak256(abi.encode(CLAIM_REQUEST_TYPEHASH, employee, nonce, deadline));
+        if (ECDSA.recover(MessageHashUtils.toTypedDataHash(_domainSeparator(), structHash), signature) != employee) {
+            revert InvalidSignature();
+        }
+
+        _transferClaimed(employee, _claimAll(employee));
+        emit ClaimRelayed(employee, msg.sender, nonce);
+    }
+
+    function claimGrantVestedTokens(uint256 grantId) external nonReentrant whenNotPaused(PAUSE_CLAIMS) {
+        EmployeeEquity storage equity = _getGrant(msg.sender, grantId);
         
         // enforce cliff period
-        if (elapsedTime < equityClass.cliffPeriod) {
-            revert CliffPeriodNotMet(equityClass.cliffPeriod - elapsedTime);
-        }
+        uint256 remainingCliff = _remainingCliff(equity, grantId);
+        if (remainingCliff != 0) revert CliffPeriodNotMet(remainingCliff);
         
-        uint256 unclaimedTokens = calculateVestedTokens(msg.sender);
+        uint256 unclaimedTokens = _claimGrant(equity, grantId);
         if (unclaimedTokens == 0) revert NoTokensToClaim(msg.sender);
 
-        // update claimed tokens
-        unchecked {
-            equity.claimedTokens += uint96(unclaimedTokens);
-            totalReleasedTokens[msg.sender] += uint96(unclaimedTokens);
+        _transferClaimed(msg.sender, unclaimedTokens);
+    }
+
+    // pushes everything currently claimable to each employee, skipping those with nothing to claim
+    function distributeVestedTokens(
+        address[] calldata employees
+    ) external onlyGranter nonReentrant whenNotPaused(PAUSE_CLAIMS) returns (uint256 totalDistributed) {
+        if (employees.length > MAX_DISTRIBUTION_BATCH) revert BatchTooLarge(employees.length, MAX_DISTRIBUTION_BATCH);
+
+        for (uint256 i = 0; i < employees.length;) {
+            EmployeeEquity[] storage grants = employeeGrants[employees[i]];
+            uint256 distributed;
+            for (uint256 j = 0; j < grants.length;) {
+                if (_remainingCliff(grants[j], j) == 0) {
+                    distributed += _claimGrant(grants[j], j);
+                }
+                unchecked { ++j; }
+            }
+
+            if (distributed != 0) {
+                _transferClaimed(employees[i], distributed);
+                emit VestedTokensDistributed(employees[i], uint96(distributed));
+                totalDistributed += distributed;
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    // brings the token's unvested balances up to date for grants issued before it tracked them
+    function syncUnvestedBalances(address[] calldata employees) external {
+        for (uint256 i = 0; i < employees.length;) {
+            _syncUnvestedBalance(employees[i]);
+            unchecked { ++i; }
         }
-        
-        // transfer tokens
-        bool success = token.transfer(msg.sender, unclaimedTokens);
-        if (!success) revert InsufficientBalance(unclaimedTokens, token.balanceOf(address(this)));
-        
-        emit TokensClaimed(msg.sender, uint96(unclaimedTokens));
     }
 
     function transferOwnership(address newOwner) public override onlyOwner {
@@ -248,7 +565,7 @@ contract VestingContract is
     function getEquityClassDetails(
         bytes32 name
     ) external view returns (uint96, uint32, uint32, uint16) {
-        EquityClass storage equityClass = equityClasses[name];
+        EquityClass storage equityClass = _classTerms(name, _currentTermsVersion(name));
         return (
             equityClass.tokenCount,
             equityClass.cliffPeriod,
@@ -257,49 +574,561 @@ contract VestingContract is
         );
     }
 
+    function getVestingSchedule(
+        bytes32 name
+    ) external view returns (ScheduleType, VestingMilestone[] memory) {
+        uint32 version = _currentTermsVersion(name);
+        return (_classTerms(name, version).scheduleType, _milestones(name, version));
+    }
+
+    function getEquityClassTerms(
+        bytes32 name,
+        uint32 version
+    ) external view returns (EquityClass memory, VestingMilestone[] memory) {
+        if (version > _currentTermsVersion(name)) revert InvalidTermsVersion(name, version);
+        return (_classTerms(name, version), _milestones(name, version));
+    }
+
+    function getGrantTermsVersion(
+        address employee,
+        uint256 grantId
+    ) external view returns (uint32) {
+        _getGrant(employee, grantId);
+        return grantTermsVersions[employee][grantId];
+    }
+
+    function getClaimNonce(address employee) external view returns (uint256) {
+        return claimNonces[employee];
+    }
+
+    function getApprovalQueue() external view returns (address queue, bool required) {
+        return (approvalQueue, approvalRequired);
+    }
+
+    function getStartTimeLimits() external view returns (uint32 maxBackdate, uint32 maxForwardDate) {
+        return (maxStartBackdate, maxStartForwardDate);
+    }
+
+    function getGrantAcceleratedTokens(
+        address employee,
+        uint256 grantId
+    ) external view returns (uint96) {
+        _getGrant(employee, grantId);
+        return grantAcceleratedTokens[employee][grantId];
+    }
+
+    function getEquityClassPool(
+        bytes32 name
+    ) external view returns (uint96 budget, uint96 allocated, bool retired, uint32 currentVersion) {
+        EquityPool storage pool = equityPools[name];
+        return (pool.budget, pool.allocated, pool.retired, _currentTermsVersion(name));
+    }
+
     function getTotalTokensForCompany() external view returns (uint256) {
         return token.balanceOf(address(this));
     }
 
+    // granted but not yet claimed, vested or not
     function getTotalTokensLockedForEmployees() external view returns (uint96) {
-        uint96 totalLocked;
-        for (uint256 i = 0; i < equityClassNames.length;) {
-            bytes32 className = equityClassNames[i];
-            totalLocked += equityClasses[className].tokenCount;
+        return uint96(_outstandingObligations());
+    }
+
+    function getTotalTokensReleasedToEmployees() external view returns (uint96) {
+        return totalClaimedTokens;
+    }
+
+    function getTotalTokensGranted() external view returns (uint96) {
+        return totalGrantedTokens;
+    }
+
+    function getSolvency() external view returns (uint256 balance, uint256 obligations) {
+        return (token.balanceOf(address(this)), _outstandingObligations());
+    }
+
+    function getGrantCount(address employee) external view returns (uint256) {
+        return employeeGrants[employee].length;
+    }
+
+    function getGrants(address employee) external view returns (EmployeeEquity[] memory) {
+        return employeeGrants[employee];
+    }
+
+    function getGrant(
+        address employee,
+        uint256 grantId
+    ) external view returns (EmployeeEquity memory) {
+        return _getGrant(employee, grantId);
+    }
+
+    function getClaimedTokens(address employee) external view returns (uint96 claimedTokens) {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        for (uint256 i = 0; i < grants.length;) {
+            claimedTokens += grants[i].claimedTokens;
             unchecked { ++i; }
         }
-        return totalLocked;
     }
 
-    function getTotalTokensReleasedToEmployees() external view returns (uint96) {
-        uint96 totalReleased;
-        for (uint256 i = 0; i < equityClassNames.length;) {
-            bytes32 className = equityClassNames[i];
-            EquityClass storage equityClass = equityClasses[className];
-            unchecked {
-                for (uint256 j = 0; j < equityClass.tokenCount;) {
-                    totalReleased += totalReleasedTokens[employeeEquities[msg.sender].employee];
-                    ++j;
+    function getEmployeeEquityClass(
+        address employee,
+        uint256 grantId
+    ) external view returns (bytes32) {
+        return _getGrant(employee, grantId).equityClass;
+    }
+
+    function getVestedTokens(address employee) external view returns (uint96 totalTokens) {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        for (uint256 i = 0; i < grants.length;) {
+            totalTokens += grants[i].totalTokens;
+            unchecked { ++i; }
+        }
+    }
+
+    function getGrantTimestamp(
+        address employee,
+        uint256 grantId
+    ) external view returns (uint256) {
+        return _getGrant(employee, grantId).startTime;
+    }
+
+    function getTerminationTime(
+        address employee,
+        uint256 grantId
+    ) external view returns (uint256) {
+        return _getGrant(employee, grantId).terminationTime;
+    }
+
+    function previewTermination(
+        address employee,
+        uint40 terminationTime
+    ) external view returns (uint256 vestedTokens, uint256 forfeitedTokens) {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        if (grants.length == 0) revert NoEquityGranted(employee);
+
+        for (uint256 i = 0; i < grants.length;) {
+            if (grants[i].terminationTime == 0) {
+                (uint256 grantVested, uint256 grantForfeited) = _previewTermination(grants[i], i, terminationTime);
+                vestedTokens += grantVested;
+                forfeitedTokens += grantForfeited;
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    // internal functions
+
+    function _grantEquity(
+        address employee,
+        bytes32 equityClassName,
+        uint40 startTime
+    ) internal returns (uint256 grantId) {
+        if (employee == address(0)) revert ZeroAddress();
+        if (migratedWallets[employee] != address(0)) revert WalletMigrated(employee);
+        
+        uint32 termsVersion = _currentTermsVersion(equityClassName);
+        EquityClass storage equityClass = _classTerms(equityClassName, termsVersion);
+        if (equityClass.tokenCount == 0) revert InvalidEquityClass("Equity class does not exist");
+
+        EquityPool storage pool = equityPools[equityClassName];
+        if (pool.retired) revert RetiredEquityClass(equityClassName);
+        if (uint256(pool.allocated) + equityClass.tokenCount > pool.budget) {
+            // migrated legacy grants can leave allocated above the budget
+            uint256 available = pool.allocated >= pool.budget ? 0 : pool.budget - pool.allocated;
+            revert PoolBudgetExceeded(equityClassName, equityClass.tokenCount, available);
+        }
+        pool.allocated += equityClass.tokenCount;
+
+        // never promise more than the contract holds
+        uint256 balance = token.balanceOf(address(this));
+        uint256 required = _outstandingObligations() + equityClass.tokenCount;
+        if (balance < required) revert InsufficientBalance(required, balance);
+        totalGrantedTokens += equityClass.tokenCount;
+        
+        grantId = employeeGrants[employee].length;
+        employeeGrants[employee].push(EmployeeEquity({
+            employee: employee,
+            equityClass: equityClassName,
+            totalTokens: equityClass.tokenCount,
+            startTime: startTime,
+            claimedTokens: 0,
+            terminationTime: 0
+        }));
+        grantTermsVersions[employee][grantId] = termsVersion;
+        _syncUnvestedBalance(employee);
+        
+        emit EquityGranted(employee, equityClassName, grantId, uint40(block.timestamp));
+    }
+
+    function _requireNotPaused(uint8 scope) internal view {
+        if (accessControl.isPaused(scope)) revert ContractPaused(scope);
+    }
+
+    function _storeEquityClass(
+        bytes32 name,
+        EquityClass memory equityClass
+    ) internal {
+        if (equityPools[name].retired) revert RetiredEquityClass(name);
+
+        // redefining a class adds a version, existing grants keep the terms they were issued under
+        if (equityClassIndex[name] == 0) {
+            equityClasses[name] = equityClass;
+            equityClassNames.push(name);
+            equityClassIndex[name] = equityClassNames.length;
+        } else {
+            equityClassVersions[name].push(equityClass);
+            emit EquityClassVersioned(name, uint32(equityClassVersions[name].length));
+        }
+
+        emit EquityClassDefined(name, equityClass.tokenCount);
+    }
+
+    function _currentTermsVersion(bytes32 name) internal view returns (uint32) {
+        return uint32(equityClassVersions[name].length);
+    }
+
+    function _nextTermsVersion(bytes32 name) internal view returns (uint32) {
+        return equityClassIndex[name] == 0 ? 0 : _currentTermsVersion(name) + 1;
+    }
+
+    function _classTerms(
+        bytes32 name,
+        uint32 version
+    ) internal view returns (EquityClass storage) {
+        return version == 0 ? equityClasses[name] : equityClassVersions[name][version - 1];
+    }
+
+    function _milestones(
+        bytes32 name,
+        uint32 version
+    ) internal view returns (VestingMilestone[] storage) {
+        return version == 0 ? customSchedules[name] : customScheduleVersions[name][version];
+    }
+
+    function _grantTerms(
+        EmployeeEquity storage equity,
+        uint256 grantId
+    ) internal view returns (EquityClass storage) {
+        return _classTerms(equity.equityClass, grantTermsVersions[equity.employee][grantId]);
+    }
+
+    function _grantMilestones(
+        EmployeeEquity storage equity,
+        uint256 grantId
+    ) internal view returns (VestingMilestone[] storage) {
+        return _milestones(equity.equityClass, grantTermsVersions[equity.employee][grantId]);
+    }
+
+    function _claimAll(address employee) internal returns (uint256 totalClaimed) {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        if (grants.length == 0) revert NoEquityGranted(employee);
+        
+        uint256 shortestRemainingCliff = type(uint256).max;
+        for (uint256 i = 0; i < grants.length;) {
+            EmployeeEquity storage equity = grants[i];
+            uint256 remainingCliff = _remainingCliff(equity, i);
+            if (remainingCliff != 0) {
+                if (remainingCliff < shortestRemainingCliff) {
+                    shortestRemainingCliff = remainingCliff;
                 }
-                ++i;
+            } else {
+                totalClaimed += _claimGrant(equity, i);
+            }
+            unchecked { ++i; }
+        }
+
+        if (totalClaimed == 0) {
+            // enforce cliff period
+            if (shortestRemainingCliff != type(uint256).max) revert CliffPeriodNotMet(shortestRemainingCliff);
+            revert NoTokensToClaim(employee);
+        }
+    }
+
+    function _domainSeparator() internal view returns (bytes32) {
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256("VestingContract"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    function _requireApproval() internal view {
+        if (approvalRequired && msg.sender != approvalQueue) revert ApprovalRequired();
+    }
+
+    function _min(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a < b ? a : b;
+    }
+
+    function _outstandingObligations() internal view returns (uint256) {
+        return totalGrantedTokens - totalClaimedTokens;
+    }
+
+    function _releaseFromPool(
+        bytes32 name,
+        uint256 amount
+    ) internal {
+        // grants issued before pools were tracked only count in allocated once the pool is seeded
+        EquityPool storage pool = equityPools[name];
+        pool.allocated = amount > pool.allocated ? 0 : pool.allocated - uint96(amount);
+    }
+
+    function _getGrant(
+        address employee,
+        uint256 grantId
+    ) internal view returns (EmployeeEquity storage) {
+        if (grantId >= employeeGrants[employee].length) revert InvalidGrantId(employee, grantId);
+        return employeeGrants[employee][grantId];
+    }
+
+    function _claimGrant(
+        EmployeeEquity storage equity,
+        uint256 grantId
+    ) internal returns (uint256 unclaimedTokens) {
+        unclaimedTokens = _unclaimedTokens(equity, grantId);
+        if (unclaimedTokens == 0) {
+            return 0;
+        }
+
+        // update claimed tokens
+        unchecked {
+            equity.claimedTokens += uint96(unclaimedTokens);
+            totalReleasedTokens[equity.employee] += uint96(unclaimedTokens);
+            totalClaimedTokens += uint96(unclaimedTokens);
+        }
+
+        emit TokensClaimed(equity.employee, grantId, uint96(unclaimedTokens));
+    }
+
+    function _transferClaimed(address recipient, uint256 amount) internal {
+        bool success = token.transfer(recipient, amount);
+        if (!success) revert InsufficientBalance(amount, token.balanceOf(address(this)));
+        _syncUnvestedBalance(recipient);
+    }
+
+    function _syncUnvestedBalance(address employee) internal {
+        EmployeeEquity[] storage grants = employeeGrants[employee];
+        uint256 unvestedBalance;
+        for (uint256 i = 0; i < grants.length;) {
+            unvestedBalance += grants[i].totalTokens - grants[i].claimedTokens;
+            unchecked { ++i; }
+        }
+        token.updateUnvestedBalance(employee, unvestedBalance);
+    }
+
+    function _remainingCliff(
+        EmployeeEquity storage equity,
+        uint256 grantId
+    ) internal view returns (uint256) {
+        // terminated grants can always claim what vested before termination, accelerated ones what was accelerated
+        if (equity.terminationTime != 0 || grantAcceleratedTokens[equity.employee][grantId] != 0) {
+            return 0;
+        }
+
+        uint256 cliffEnd = equity.startTime + _grantTerms(equity, grantId).cliffPeriod;
+        return block.timestamp < cliffEnd ? cliffEnd - block.timestamp : 0;
+    }
+
+    function _unclaimedTokens(
+        EmployeeEquity storage equity,
+        uint256 grantId
+    ) internal view returns (uint256) {
+        // terminated grants were cut down to their vested amount
+        uint256 totalVestedAmount = equity.terminationTime != 0
+            ? equity.totalTokens
+            : _vestedAmountAt(equity, grantId, block.timestamp);
+
+        // if already claimed more than currently vested, return 0
+        if (equity.claimedTokens >= totalVestedAmount) {
+            return 0;
+        }
+
+        return totalVestedAmount - equity.claimedTokens;
+    }
+
+    function _nextVesting(
+        EmployeeEquity storage equity,
+        uint256 grantId
+    ) internal view returns (uint256 amount, uint256 unlockTime) {
+        (amount, unlockTime) = _nextScheduledVesting(equity, grantId);
+
+        uint256 acceleratedTokens = grantAcceleratedTokens[equity.employee][grantId];
+        if (acceleratedTokens == 0 || unlockTime == 0) {
+            return (amount, unlockTime);
+        }
+
+        // acceleration already covered the end of the schedule, so trim the next batch to what is left
+        uint256 scheduledAmount = _scheduledAmountAt(equity, grantId, block.timestamp);
+        uint256 vestedNow = _min(scheduledAmount + acceleratedTokens, equity.totalTokens);
+        uint256 vestedNext = _min(scheduledAmount + amount + acceleratedTokens, equity.totalTokens);
+        if (vestedNext == vestedNow) {
+            return (0, 0);
+        }
+        return (vestedNext - vestedNow, unlockTime);
+    }
+
+    function _nextScheduledVesting(
+        EmployeeEquity storage equity,
+        uint256 grantId
+    ) internal view returns (uint256 amount, uint256 unlockTime) {
+        if (equity.terminationTime != 0) {
+            return (0, 0);
+        }
+
+        EquityClass storage equityClass = _grantTerms(equity, grantId);
+        // nothing has vested before a future start, so an unlock right at the start is still ahead
+        bool notStarted = block.timestamp < equity.startTime;
+        uint256 elapsedTime = notStarted ? 0 : block.timestamp - equity.startTime;
+
+        if (equityClass.scheduleType == ScheduleType.Linear) {
+            return _nextLinearVesting(equity, equityClass, elapsedTime);
+        }
+        if (equityClass.scheduleType == ScheduleType.Custom) {
+            return _nextCustomVesting(equity, _grantMilestones(equity, grantId), elapsedTime, notStarted);
+        }
+
+        // if cliff period hasn't passed yet
+        if (notStarted || elapsedTime < equityClass.cliffPeriod) {
+            // first batch after cliff
+            uint256 firstBatch = (equity.totalTokens * equityClass.vestingPercentage) / BASIS_POINTS;
+            return (firstBatch, equity.startTime + equityClass.cliffPeriod);
+        }
+
+        // calculate current and next vesting milestones
+        uint256 vestingTime = elapsedTime - equityClass.cliffPeriod;
+        uint256 currentPeriods = 1 + (vestingTime / equityClass.vestingPeriod);
+        uint256 totalVestedPercentage = currentPeriods * equityClass.vestingPercentage;
+
+        // if fully vested
+        if (totalVestedPercentage >= BASIS_POINTS) {
+            return (0, 0);
+        }
+
+        // calculate next batch
+        uint256 batchAmount = (equity.totalTokens * equityClass.vestingPercentage) / BASIS_POINTS;
+        uint256 nextUnlockTime = equity.startTime + equityClass.cliffPeriod + (currentPeriods * equityClass.vestingPeriod);
+
+        return (batchAmount, nextUnlockTime);
+    }
+
+    function _nextLinearVesting(
+        EmployeeEquity storage equity,
+        EquityClass storage equityClass,
+        uint256 elapsedTime
+    ) internal view returns (uint256 amount, uint256 unlockTime) {
+        // the cliff releases everything accrued so far in one batch
+        if (elapsedTime < equityClass.cliffPeriod) {
+            uint256 cliffAmount = (uint256(equity.totalTokens) * equityClass.cliffPeriod) / equityClass.vestingPeriod;
+            return (cliffAmount, equity.startTime + equityClass.cliffPeriod);
+        }
+
+        if (elapsedTime >= equityClass.vestingPeriod) {
+            return (0, 0);
+        }
+
+        // after the cliff tokens accrue every second, so report what is left until the end
+        uint256 vestedAmount = (uint256(equity.totalTokens) * elapsedTime) / equityClass.vestingPeriod;
+        return (equity.totalTokens - vestedAmount, equity.startTime + equityClass.vestingPeriod);
+    }
+
+    function _nextCustomVesting(
+        EmployeeEquity storage equity,
+        VestingMilestone[] storage milestones,
+        uint256 elapsedTime,
+        bool notStarted
+    ) internal view returns (uint256 amount, uint256 unlockTime) {
+        uint256 previousPercentage;
+        for (uint256 i = 0; i < milestones.length;) {
+            VestingMilestone storage milestone = milestones[i];
+            if (notStarted || milestone.offset > elapsedTime) {
+                uint256 previousAmount = (uint256(equity.totalTokens) * previousPercentage) / BASIS_POINTS;
+                uint256 nextAmount = (uint256(equity.totalTokens) * milestone.cumulativePercentage) / BASIS_POINTS;
+                return (nextAmount - previousAmount, equity.startTime + milestone.offset);
             }
+            previousPercentage = milestone.cumulativePercentage;
+            unchecked { ++i; }
         }
-        return totalReleased;
+
+        // if fully vested
+        return (0, 0);
     }
 
-    function getClaimedTokens(address employee) external view returns (uint96) {
-        return employeeEquities[employee].claimedTokens;
+    function _vestedAmountAt(
+        EmployeeEquity storage equity,
+        uint256 grantId,
+        uint256 timestamp
+    ) internal view returns (uint256) {
+        uint256 vestedAmount = _scheduledAmountAt(equity, grantId, timestamp) + grantAcceleratedTokens[equity.employee][grantId];
+        return _min(vestedAmount, equity.totalTokens);
     }
 
-    function getEmployeeEquityClass(address employee) external view returns (bytes32) {
-        return employeeEquities[employee].equityClass;
+    function _scheduledAmountAt(
+        EmployeeEquity storage equity,
+        uint256 grantId,
+        uint256 timestamp
+    ) internal view returns (uint256) {
+        if (timestamp < equity.startTime) {
+            return 0;
+        }
+
+        EquityClass storage equityClass = _grantTerms(equity, grantId);
+        uint256 elapsedTime = timestamp - equity.startTime;
+
+        // check if cliff period has passed
+        if (elapsedTime < equityClass.cliffPeriod) {
+            return 0;
+        }
+
+        if (equityClass.scheduleType == ScheduleType.Linear) {
+            if (elapsedTime >= equityClass.vestingPeriod) {
+                return equity.totalTokens;
+            }
+            return (uint256(equity.totalTokens) * elapsedTime) / equityClass.vestingPeriod;
+        }
+
+        if (equityClass.scheduleType == ScheduleType.Custom) {
+            return (uint256(equity.totalTokens) * _customVestedPercentage(_grantMilestones(equity, grantId), elapsedTime)) / BASIS_POINTS;
+        }
+
+        // calculate number of complete vesting periods
+        uint256 vestingTime = elapsedTime - equityClass.cliffPeriod;
+        uint256 completedPeriods = vestingTime / equityClass.vestingPeriod;
+        
+        // calculate vested percentage including cliff and completed periods
+        uint256 vestedPercentage = equityClass.vestingPercentage + (completedPeriods * equityClass.vestingPercentage);
+        if (vestedPercentage > BASIS_POINTS) {
+            vestedPercentage = BASIS_POINTS;
+        }
+
+        // calculate total vested tokens
+        return (equity.totalTokens * vestedPercentage) / BASIS_POINTS;
     }
 
-    function getVestedTokens(address employee) external view returns (uint96) {
-        return employeeEquities[employee].totalTokens;
+    function _customVestedPercentage(
+        VestingMilestone[] storage milestones,
+        uint256 elapsedTime
+    ) internal view returns (uint256 vestedPercentage) {
+        for (uint256 i = 0; i < milestones.length;) {
+            if (milestones[i].offset > elapsedTime) {
+                break;
+            }
+            vestedPercentage = milestones[i].cumulativePercentage;
+            unchecked { ++i; }
+        }
     }
 
-    function getGrantTimestamp(address employee) external view returns (uint256) {
-        return employeeEquities[employee].startTime;
+    function _previewTermination(
+        EmployeeEquity storage equity,
+        uint256 grantId,
+        uint256 terminationTime
+    ) internal view returns (uint256 vestedTokens, uint256 forfeitedTokens) {
+        vestedTokens = _vestedAmountAt(equity, grantId, terminationTime);
+
+        // tokens already claimed can't be taken back
+        if (equity.claimedTokens > vestedTokens) {
+            vestedTokens = equity.claimedTokens;
+        }
+
+        forfeitedTokens = equity.totalTokens - vestedTokens;
     }
 }
\ No newline at end of file
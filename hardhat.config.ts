@@ -3,6 +3,7 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@openzeppelin/hardhat-upgrades";
 import "dotenv/config";
+import "./tasks/equity";
 
 function getAccounts(): string[] {
   const role = process.env.ROLE || 'admin';
@@ -18,19 +19,41 @@ function getAccounts(): string[] {
   }
 }
 
+const VESTING_COMPILER = {
+  version: "0.8.27",
+  settings: {
+    optimizer: {
+      enabled: true,
+      runs: 200,
+    },
+    viaIR: true,
+  },
+};
+
 const config: HardhatUserConfig = {
   solidity: {
-    version: "0.8.27",
-    settings: {
-      optimizer: {
-        enabled: true,
-        runs: 200,
+    compilers: [
+      {
+        version: "0.8.27",
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
       },
+    ],
+    // the IR pipeline keeps the vesting contract under the 24KB deploy limit, the queue imports it so builds it the same way
+    overrides: {
+      "contracts/VestingContract.sol": VESTING_COMPILER,
+      "contracts/ApprovalQueueContract.sol": VESTING_COMPILER,
     },
   },
   networks: {
     hardhat: {
       chainId: 31337,
+      // set FORK_URL to rehearse upgrades against a local fork of a live network
+      forking: process.env.FORK_URL ? { url: process.env.FORK_URL } : undefined,
       mining: {
         auto: true,
         interval: 0
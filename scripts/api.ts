@@ -0,0 +1,162 @@
+import http from "http";
+import { ethers } from "hardhat";
+import { getCompanyTotals, getEmployeeEquity, getEquityClasses } from "./utils/equityData";
+import { loadDeployment } from "./utils/registry";
+import type { TokenContract, VestingContract } from "../typechain-types";
+
+const DEFAULT_API_PORT = 3000;
+const DEFAULT_CACHE_TTL_SECONDS = 15;
+const MAX_CACHE_ENTRIES = 500;
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  response: ApiResponse;
+}
+
+// token amounts are uint96/uint256, so they are sent as decimal strings
+function toJson(
+  value: unknown
+): string {
+  return JSON.stringify(value, (_key, item) => typeof item === "bigint" ? item.toString() : item, 2);
+}
+
+function errorResponse(
+  status: number,
+  message: string
+): ApiResponse {
+  return { status, body: { error: message } };
+}
+
+async function resolveBlockTag(
+  requested: string | null,
+  deploymentBlock: number
+): Promise<number | ApiResponse> {
+  const latestBlock = await ethers.provider.getBlockNumber();
+  if (requested === null || requested === "latest") {
+    return latestBlock;
+  }
+
+  const blockNumber = Number(requested);
+  // the contracts have no state to report before they were deployed
+  if (!Number.isInteger(blockNumber) || blockNumber < deploymentBlock || blockNumber > latestBlock) {
+    return errorResponse(400, `blockTag must be "latest" or a block number from ${deploymentBlock} to ${latestBlock}`);
+  }
+  return blockNumber;
+}
+
+async function route(
+  vestingContract: VestingContract,
+  tokenContract: TokenContract,
+  path: string,
+  blockTag: number
+): Promise<ApiResponse> {
+  const withBlock = async (data: unknown): Promise<ApiResponse> => {
+    const block = await ethers.provider.getBlock(blockTag);
+    return { status: 200, body: { blockNumber: blockTag, blockTimestamp: block!.timestamp, data } };
+  };
+
+  if (path === "/classes") {
+    return withBlock(await getEquityClasses(vestingContract, blockTag));
+  }
+
+  if (path === "/company") {
+    return withBlock(await getCompanyTotals(vestingContract, tokenContract, blockTag));
+  }
+
+  const employeeMatch = path.match(/^\/employees\/([^/]+)$/);
+  if (employeeMatch) {
+    if (!ethers.isAddress(employeeMatch[1])) {
+      return errorResponse(400, `${employeeMatch[1]} is not a valid address`);
+    }
+    const employee = await getEmployeeEquity(vestingContract, employeeMatch[1], blockTag);
+    if (employee.grants.length === 0) {
+      return errorResponse(404, `No equity granted to ${employee.address}`);
+    }
+    return withBlock(employee);
+  }
+
+  return errorResponse(404, `Unknown endpoint ${path}. Try /classes, /employees/:address or /company`);
+}
+
+// Usage: [API_PORT=3000] [API_CACHE_TTL=15] npx hardhat run scripts/api.ts --network <network>
+async function main() {
+  console.log("Loading deployment data...");
+  const deployment = await loadDeployment();
+
+  // read-only, so the contracts are bound to the provider instead of a signer
+  const vestingContract = (await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy))
+    .connect(ethers.provider);
+  const tokenContract = (await ethers.getContractAt("TokenContract", deployment.contracts.tokenContract.proxy))
+    .connect(ethers.provider);
+
+  const port = parseInt(process.env.API_PORT || "") || DEFAULT_API_PORT;
+  const cacheTtl = (parseInt(process.env.API_CACHE_TTL ?? "") >= 0
+    ? parseInt(process.env.API_CACHE_TTL!)
+    : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+
+  // keyed by path and requested block, so "latest" refreshes once the entry expires
+  const cache = new Map<string, CacheEntry>();
+
+  const server = http.createServer(async (request, response) => {
+    const send = (apiResponse: ApiResponse, cacheStatus: "HIT" | "MISS") => {
+      response.writeHead(apiResponse.status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "X-Cache": cacheStatus,
+      });
+      response.end(toJson(apiResponse.body));
+    };
+
+    try {
+      if (request.method !== "GET") {
+        send(errorResponse(405, "Only GET is supported, the API is read-only"), "MISS");
+        return;
+      }
+
+      const url = new URL(request.url || "/", "http://localhost");
+      const path = url.pathname.replace(/\/+$/, "") || "/";
+      const requestedBlock = url.searchParams.get("blockTag");
+      const cacheKey = `${path}@${requestedBlock ?? "latest"}`;
+
+      const cached = cache.get(cacheKey);
+      if (cached && cached.expiresAt > Date.now()) {
+        send(cached.response, "HIT");
+        return;
+      }
+
+      const blockTag = await resolveBlockTag(requestedBlock, deployment.deploymentBlock);
+      const apiResponse = typeof blockTag === "number"
+        ? await route(vestingContract, tokenContract, path, blockTag)
+        : blockTag;
+
+      if (apiResponse.status === 200 && cacheTtl > 0) {
+        if (cache.size >= MAX_CACHE_ENTRIES) {
+          cache.delete(cache.keys().next().value!);
+        }
+        cache.set(cacheKey, { expiresAt: Date.now() + cacheTtl, response: apiResponse });
+      }
+      send(apiResponse, "MISS");
+    } catch (error) {
+      console.error("Request failed:", (error as Error).message);
+      send(errorResponse(502, "Could not read from the chain"), "MISS");
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`Equity API listening on http://localhost:${port} (chain ${deployment.chainId}, cache ${cacheTtl / 1000}s) 🌐`);
+    console.log("Endpoints: GET /classes, GET /employees/:address, GET /company (add ?blockTag=<number> for history)");
+  });
+
+  // keep serving until the process is stopped
+  await new Promise<void>((resolve) => server.on("close", resolve));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
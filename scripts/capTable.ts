@@ -0,0 +1,33 @@
+import { ethers } from "hardhat";
+import {
+  buildCapTable,
+  printCapTable,
+  exportCapTableCsv,
+  exportCapTableJson
+} from "./utils/capTable";
+import { loadDeployment } from "./utils/registry";
+
+// Usage: [FROM_BLOCK=n] [OUTPUT=cap-table] npx hardhat run scripts/capTable.ts --network <network>
+async function main() {
+  console.log("Loading deployment data...");
+  const deployment = await loadDeployment();
+  const vestingContract = await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy);
+
+  const fromBlock = process.env.FROM_BLOCK
+    ? parseInt(process.env.FROM_BLOCK)
+    : deployment.deploymentBlock;
+
+  console.log(`Scanning vesting events from block ${fromBlock}...`);
+  const capTable = await buildCapTable(vestingContract, fromBlock);
+  printCapTable(capTable);
+
+  const output = process.env.OUTPUT || "cap-table";
+  exportCapTableCsv(capTable, `${output}.csv`);
+  exportCapTableJson(capTable, `${output}.json`);
+  console.log(`Cap table exported to ${output}.csv and ${output}.json`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
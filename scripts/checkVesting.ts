@@ -0,0 +1,48 @@
+import { ethers } from "hardhat";
+import Table from "cli-table3";
+import { checkConsistency } from "./utils/vestingEngine";
+import { loadDeployment } from "./utils/registry";
+
+// Usage: [EMPLOYEE=0x...] npx hardhat run scripts/checkVesting.ts --network <network>
+async function main() {
+  console.log("Loading deployment data...");
+  const deployment = await loadDeployment();
+  const vestingContract = await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy);
+
+  const [signer] = await ethers.getSigners();
+  const employee = process.env.EMPLOYEE || signer.address;
+
+  const block = await ethers.provider.getBlock("latest");
+  const results = await checkConsistency(vestingContract, employee, BigInt(block!.timestamp), block!.number);
+
+  const table = new Table({
+    head: ["Grant ID", "Claimable (engine)", "Claimable (contract)", "Next Unlock (engine)", "Next Unlock (contract)", "Match"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const result of results) {
+    table.push([
+      result.grantId.toString(),
+      result.engineClaimable.toString(),
+      result.contractClaimable.toString(),
+      `${result.engineNext[0]} @ ${result.engineNext[1]}`,
+      `${result.contractNext[0]} @ ${result.contractNext[1]}`,
+      result.matches ? "✅" : "❌"
+    ]);
+  }
+
+  console.log(`Vesting engine vs contract for ${employee} at block ${block!.number}`);
+  console.log(table.toString());
+
+  if (results.some((result) => !result.matches)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,49 +1,176 @@
 import { ethers, upgrades } from "hardhat";
-import fs from "fs";
 import inquirer from "inquirer";
 import { BytesLike } from "ethers";
-
-const DEFAULT_EQUITY_CLASSES: EquityClass[] = [
+import { getRoleIds } from "./utils/roles";
+import {
+  ContractKey,
+  NetworkDeployment,
+  REGISTRY_FILE,
+  describeProxy,
+  findDeployment,
+  getChainId,
+  loadDeployment,
+  recordDeployment,
+  recordUpgrade
+} from "./utils/registry";
+import {
+  CONTRACT_NAMES,
+  getForkedChainId,
+  getInitializedVersion,
+  getStorageLayoutDiff,
+  getUpgradeOptions,
+  getUpgradeReceipt,
+  impersonateProxyAdminOwner,
+  printStorageLayoutDiff,
+  validateContractUpgrade
+} from "./utils/upgradeSafety";
+import { loadGrants, migrateLegacyGrants } from "./utils/grants";
+import { syncUnvestedBalances } from "./utils/voting";
+import { EquityContracts, VestingCall, connectContracts, sendOrPropose } from "./utils/commands";
+
+const DEFAULT_MAX_START_BACKDATE = 90 * 24 * 60 * 60;
+const DEFAULT_MAX_START_FORWARD_DATE = 30 * 24 * 60 * 60;
+const DEFAULT_PROPOSAL_LIFETIME = 7 * 24 * 60 * 60;
+// reinitializer version of TokenContract.initializePermitAndVotes
+const TOKEN_INITIALIZED_VERSION = 3n;
+
+export const DEFAULT_EQUITY_CLASSES: EquityClass[] = [
   { 
     name: "CXO", 
     tokenCount: 1000, 
     cliffPeriod: 120, 
     vestingPeriod: 120, 
-    vestingPercentage: 25 
+    vestingPercentage: 25,
+    poolBudget: 10000
   },
   { 
     name: "Senior Manager", 
     tokenCount: 800, 
     cliffPeriod: 120, 
     vestingPeriod: 120, 
-    vestingPercentage: 25 
+    vestingPercentage: 25,
+    poolBudget: 8000
   },
   { 
     name: "Others", 
     tokenCount: 400, 
     cliffPeriod: 120, 
     vestingPeriod: 120, 
-    vestingPercentage: 50 
+    vestingPercentage: 50,
+    poolBudget: 8000
   }
 ];
 
-interface EquityClass {
+type ScheduleType = "step" | "linear" | "custom";
+
+interface VestingMilestone {
+  offset: number;
+  cumulativePercentage: number;
+}
+
+export interface EquityClass {
   name: string;
   tokenCount: number;
   cliffPeriod: number;
   vestingPeriod: number;
   vestingPercentage: number;
+  scheduleType?: ScheduleType;
+  milestones?: VestingMilestone[];
+  // total tokens all grants of the class may draw, left unchanged when omitted
+  poolBudget?: number;
+}
+
+// the vesting contract calls that define or update a class, sent directly or as approval proposals
+export function equityClassCalls(
+  equityClass: EquityClass
+): VestingCall[] {
+  const nameBytes32 = ethers.encodeBytes32String(equityClass.name);
+  const calls: VestingCall[] = [];
+
+  switch (equityClass.scheduleType || "step") {
+    case "linear":
+      calls.push({
+        method: "defineLinearEquityClass",
+        args: [nameBytes32, equityClass.tokenCount, equityClass.cliffPeriod, equityClass.vestingPeriod],
+      });
+      break;
+    case "custom": {
+      // percentages are entered as percent and stored on-chain in basis points
+      const milestones = equityClass.milestones || [];
+      calls.push({
+        method: "defineCustomEquityClass",
+        args: [
+          nameBytes32,
+          equityClass.tokenCount,
+          milestones.map((milestone) => milestone.offset),
+          milestones.map((milestone) => Math.round(milestone.cumulativePercentage * 100))
+        ],
+      });
+      break;
+    }
+    default:
+      calls.push({
+        method: "defineEquityClass",
+        args: [
+          nameBytes32,
+          equityClass.tokenCount,
+          equityClass.cliffPeriod,
+          equityClass.vestingPeriod,
+          equityClass.vestingPercentage
+        ],
+      });
+  }
+
+  if (equityClass.poolBudget !== undefined) {
+    calls.push({ method: "setEquityClassBudget", args: [nameBytes32, equityClass.poolBudget] });
+  }
+
+  return calls;
+}
+
+export async function defineEquityClass(
+  vestingContract: any,
+  equityClass: EquityClass
+) {
+  for (const call of equityClassCalls(equityClass)) {
+    const tx = await vestingContract[call.method](...call.args);
+    await tx.wait();
+  }
 }
 
-interface DeploymentData {
-  tokenContract: string;
-  vestingContract: string;
-  accessControlContract: string;
-  deploymentTime: string;
-  network: string;
+export function parseMilestones(
+  input: string
+): VestingMilestone[] {
+  return input.split(",").map((pair) => {
+    const [offset, percentage] = pair.split(":").map((value) => value.trim());
+    return {
+      offset: parseInt(offset),
+      cumulativePercentage: parseFloat(percentage)
+    };
+  });
+}
+
+export function validateMilestones(
+  input: string
+): boolean | string {
+  const milestones = parseMilestones(input);
+  for (let i = 0; i < milestones.length; i++) {
+    const { offset, cumulativePercentage } = milestones[i];
+    if (isNaN(offset) || isNaN(cumulativePercentage) || cumulativePercentage <= 0) {
+      return "Use offset:percentage pairs, e.g. 31536000:25,63072000:100";
+    }
+    if (i > 0 && offset <= milestones[i - 1].offset) {
+      return "Offsets must be strictly increasing";
+    }
+    if (i > 0 && cumulativePercentage < milestones[i - 1].cumulativePercentage) {
+      return "Cumulative percentages cannot decrease";
+    }
+  }
+  return milestones[milestones.length - 1].cumulativePercentage === 100
+    || "The last milestone must reach 100%";
 }
 
-async function deployContracts() {
+export async function deployContracts() {
   const [deployer] = await ethers.getSigners();
   console.log("Deploying contracts with account:", deployer.address);
 
@@ -85,134 +212,496 @@ async function deployContracts() {
   );
   await vestingContract.waitForDeployment();
   const vestingAddress = await vestingContract.getAddress();
+  const deploymentReceipt = await vestingContract.deploymentTransaction()?.wait();
   console.log("Vesting Contract deployed to:", vestingAddress);
 
+  const { approvalQueueContract, approvalQueueAddress } = await deployApprovalQueue(vestingAddress, accessControlAddress);
+
   return {
     tokenContract,
     accessControlContract,
     vestingContract,
+    approvalQueueContract,
     addresses: {
       token: tokenAddress,
       accessControl: accessControlAddress,
-      vesting: vestingAddress
-    }
+      vesting: vestingAddress,
+      approvalQueue: approvalQueueAddress
+    },
+    deploymentBlock: deploymentReceipt?.blockNumber ?? 0
   };
 }
 
-async function setupContracts(
+export async function deployApprovalQueue(
+  vestingAddress: string,
+  accessControlAddress: string
+) {
+  const ApprovalQueueContract = await ethers.getContractFactory("ApprovalQueueContract");
+  const approvalQueueContract = await upgrades.deployProxy(
+    ApprovalQueueContract,
+    [DEFAULT_PROPOSAL_LIFETIME],
+    {
+      initializer: "initialize",
+      kind: "transparent",
+      constructorArgs: [vestingAddress, accessControlAddress]
+    }
+  );
+  await approvalQueueContract.waitForDeployment();
+  const approvalQueueAddress = await approvalQueueContract.getAddress();
+  console.log("Approval Queue Contract deployed to:", approvalQueueAddress);
+
+  return { approvalQueueContract, approvalQueueAddress };
+}
+
+// the queue executes approved grants and class changes, so it needs the roles those calls check
+export async function setupApprovalQueue(
+  accessControlContract: any,
+  vestingContract: any,
+  approvalQueueAddress: string
+) {
+  const { ADMIN_ROLE, GRANTER_ROLE } = await getRoleIds(accessControlContract);
+  await accessControlContract.grantRole(ADMIN_ROLE, approvalQueueAddress);
+  await accessControlContract.grantRole(GRANTER_ROLE, approvalQueueAddress);
+
+  const tx = await vestingContract.setApprovalQueue(approvalQueueAddress, false);
+  await tx.wait();
+  console.log("Connected the approval queue to VestingContract (approvals not required yet)");
+}
+
+// asked unless the caller already knows the answer
+export async function promptRequireApprovals(
+  vestingContract: any,
+  approvalQueueAddress: string,
+  requireApprovals?: boolean
+) {
+  if (requireApprovals === undefined) {
+    ({ requireApprovals } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "requireApprovals",
+        message: "Require a second person to approve grants and equity class changes?",
+        default: true,
+      },
+    ]));
+  }
+
+  if (requireApprovals) {
+    const tx = await vestingContract.setApprovalQueue(approvalQueueAddress, true);
+    await tx.wait();
+    console.log("Grants and class changes now go through the approval queue");
+  }
+}
+
+// the token only lets this be chosen before any grant balance is tracked
+export async function promptUnvestedVotes(
+  tokenContract: any,
+  countUnvested?: boolean
+) {
+  if (countUnvested === undefined) {
+    ({ countUnvested } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "countUnvested",
+        message: "Count unvested tokens held by VestingContract toward each grantee's votes?",
+        default: false,
+      },
+    ]));
+  }
+
+  if (countUnvested) {
+    const tx = await tokenContract.setUnvestedVotesEnabled(true);
+    await tx.wait();
+  }
+  console.log(`Unvested tokens ${countUnvested ? "count" : "do not count"} toward grantee votes`);
+}
+
+// classes from before pool budgets block every grant until their pool has a budget, seeded with the
+// tokens their grants already hold; budgets not given default to exactly those tokens
+// with approvals required each seeded pool becomes a proposal, like any other budget change
+export async function seedEquityPools(
+  contracts: EquityContracts,
+  fromBlock: number,
+  poolBudgets?: Record<string, number>
+) {
+  const { vestingContract } = contracts;
+  const allocated = new Map<string, bigint>();
+  const { grants } = await loadGrants(vestingContract, fromBlock);
+  for (const grant of grants) {
+    const { totalTokens } = await vestingContract.getGrant(grant.employee, grant.grantId);
+    allocated.set(grant.equityClassName, (allocated.get(grant.equityClassName) ?? 0n) + totalTokens);
+  }
+
+  for (const name of await vestingContract.getEquityClassNames()) {
+    const [budget] = await vestingContract.getEquityClassPool(name);
+    if (budget !== 0n) {
+      continue;
+    }
+    const className = ethers.decodeBytes32String(name);
+    const classAllocated = allocated.get(name) ?? 0n;
+
+    let poolBudget = poolBudgets?.[className];
+    if (poolBudget === undefined && !poolBudgets) {
+      const answer = await inquirer.prompt([
+        {
+          type: "input",
+          name: "poolBudget",
+          message: `Enter the pool budget of ${className}, its grants already hold ${classAllocated} tokens:`,
+          default: classAllocated.toString(),
+          validate: (input: string) => {
+            const value = parseInt(input);
+            return !isNaN(value) && BigInt(value) >= classAllocated || `The budget can't be below the ${classAllocated} allocated tokens`;
+          },
+        },
+      ]);
+      poolBudget = parseInt(answer.poolBudget);
+    }
+    poolBudget ??= Number(classAllocated);
+
+    const { proposalId } = await sendOrPropose(contracts, {
+      method: "seedEquityPool",
+      args: [name, poolBudget, classAllocated],
+    });
+    if (proposalId === undefined) {
+      console.log(`Pool of ${className}: budget ${poolBudget}, ${classAllocated} allocated`);
+    }
+  }
+}
+
+export async function setupContracts(
   accessControlContract: any,
   tokenContract: any, 
   vestingContract: any, 
-  vestingAddress: string
+  vestingAddress: string,
+  totalTokens?: number
 ) {
   console.log("Setting up contract permissions and initial configuration...");
 
-  const minterRole = ethers.encodeBytes32String("MINTER_ROLE");
-  await accessControlContract.grantRole(minterRole, vestingAddress);
+  const { MINTER_ROLE } = await getRoleIds(accessControlContract);
+  await accessControlContract.grantRole(MINTER_ROLE, vestingAddress);
   console.log("Granted MINTER_ROLE to VestingContract");
 
+  // the vesting contract pays out claims and the deployer holds the company treasury
+  const [deployer] = await ethers.getSigners();
+  await tokenContract.setTransferExempt(vestingAddress, true);
+  await tokenContract.setTransferExempt(deployer.address, true);
+  await tokenContract.setTransferRestrictionsEnabled(true);
+  console.log("Enabled transfer restrictions with VestingContract and treasury exempt");
+
+  // grants report each employee's unvested balance to the token for voting power
+  await tokenContract.setVestingContract(vestingAddress);
+  console.log("Connected VestingContract to the token's unvested balances");
+
   for (const equityClass of DEFAULT_EQUITY_CLASSES) {
-    const nameBytes32 = ethers.encodeBytes32String(equityClass.name);
-    await vestingContract.defineEquityClass(
-      nameBytes32,
-      equityClass.tokenCount,
-      equityClass.cliffPeriod,
-      equityClass.vestingPeriod,
-      equityClass.vestingPercentage
-    );
+    await defineEquityClass(vestingContract, equityClass);
     console.log(`Defined equity class: ${equityClass.name}`);
   }
 
-  const { totalTokens } = await inquirer.prompt([
-    {
-      type: "input",
-      name: "totalTokens",
-      message: "Enter the total number of tokens to mint:",
-      validate: (input: string) => {
-        const value = parseInt(input);
-        return !isNaN(value) && value > 0;
+  // offer letters usually date vesting from the first day of work, a few weeks before the grant is recorded
+  await vestingContract.setStartTimeLimits(DEFAULT_MAX_START_BACKDATE, DEFAULT_MAX_START_FORWARD_DATE);
+  console.log("Set vesting start date limits: 90 days back, 30 days ahead");
+
+  if (totalTokens === undefined) {
+    ({ totalTokens } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "totalTokens",
+        message: "Enter the total number of tokens to mint:",
+        validate: (input: string) => {
+          const value = parseInt(input);
+          return !isNaN(value) && value > 0;
+        },
       },
-    },
-  ]);
+    ]));
+  }
 
   await tokenContract.mint(vestingAddress, totalTokens);
   console.log(`Minted ${totalTokens} tokens to VestingContract`);
 }
 
-async function upgradeContracts(
-  deploymentData: DeploymentData
+// answers given up front skip their prompts, so the same upgrade can run from automation
+export interface UpgradeRequest {
+  contractKey?: ContractKey;
+  confirmed?: boolean;
+  countUnvestedVotes?: boolean;
+  // pool budgets by class name for classes from before pool budgets, the rest get their allocated tokens
+  poolBudgets?: Record<string, number>;
+}
+
+export async function upgradeContracts(
+  deployment: NetworkDeployment,
+  rehearsal: boolean,
+  request: UpgradeRequest = {}
 ) {
   console.log("Starting contract upgrade process...");
 
-  const VestingContract = await ethers.getContractFactory("VestingContract");
-  const upgradedVestingContract = await upgrades.upgradeProxy(
-    deploymentData.vestingContract,
-    VestingContract,
+  const { contractKey } = request.contractKey ? request : await inquirer.prompt([
     {
-      kind: "transparent",
-      constructorArgs: [deploymentData.tokenContract, deploymentData.accessControlContract]
+      type: "list",
+      name: "contractKey",
+      message: "Select the contract to upgrade:",
+      choices: (Object.keys(CONTRACT_NAMES) as ContractKey[])
+        .filter((key) => deployment.contracts[key] !== undefined)
+        .map((key) => ({
+          name: `${CONTRACT_NAMES[key]} (${deployment.contracts[key]!.proxy})`,
+          value: key,
+        })),
+    },
+  ]);
+  const key = contractKey as ContractKey;
+  if (!deployment.contracts[key]) {
+    console.error(`Chain ${deployment.chainId} has no ${CONTRACT_NAMES[key]} deployment to upgrade.`);
+    return undefined;
+  }
+  const proxy = deployment.contracts[key]!.proxy;
+
+  // TokenContract and VestingContract check the pause switch on every transfer, grant and claim
+  if (key === "tokenContract" || key === "vestingContract") {
+    const accessControl = await ethers.getContractAt("AccessControlContract", deployment.contracts.accessControlContract.proxy);
+    const pauseSupported = await accessControl.isPaused(0).then(() => true, () => false);
+    if (!pauseSupported) {
+      console.error(`Upgrade AccessControlContract first, ${CONTRACT_NAMES[key]} checks its pause switch.`);
+      return undefined;
     }
-  );
-  await upgradedVestingContract.waitForDeployment();
-  console.log("Vesting Contract upgraded");
+  }
 
-  const equityClassNames = await upgradedVestingContract.getEquityClassNames();
-  const decodedNames = equityClassNames.map((name: BytesLike) => 
-    ethers.decodeBytes32String(name)
-  );
-  console.log("Existing equity classes:", decodedNames.join(", "));
+  // VestingContract reports unvested balances on every grant and claim, which an older token would reject
+  if (key === "vestingContract") {
+    const tokenContract = await ethers.getContractAt("TokenContract", deployment.contracts.tokenContract.proxy);
+    const connectedVesting = await tokenContract.vestingContract().catch(() => ethers.ZeroAddress);
+    if (connectedVesting.toLowerCase() !== proxy.toLowerCase()) {
+      console.error("Upgrade TokenContract first, it has to accept unvested balances from VestingContract.");
+      return undefined;
+    }
+  }
 
-  return upgradedVestingContract;
-}
+  console.log(`Validating upgrade safety of ${CONTRACT_NAMES[key]}...`);
+  try {
+    await validateContractUpgrade(key, deployment);
+  } catch (error) {
+    console.error("Upgrade validation failed:", (error as Error).message);
+    return undefined;
+  }
+  console.log("Upgrade passed safety validation ✅");
 
-async function addNewEquityClass(
-  vestingContract: any
-) {
-  const { addEquityClass } = await inquirer.prompt([
+  printStorageLayoutDiff(await getStorageLayoutDiff(key, deployment));
+
+  const { confirmUpgrade } = request.confirmed ? { confirmUpgrade: true } : await inquirer.prompt([
     {
       type: "confirm",
-      name: "addEquityClass",
-      message: "Do you want to add a new equity class?",
+      name: "confirmUpgrade",
+      message: rehearsal
+        ? `Rehearse the ${CONTRACT_NAMES[key]} upgrade on the local fork?`
+        : `Send the ${CONTRACT_NAMES[key]} upgrade transaction to chain ${deployment.chainId}?`,
       default: false,
     },
   ]);
 
-  if (addEquityClass) {
-    const { name, tokenCount, cliffPeriod, vestingPeriod, vestingPercentage } = 
-      await inquirer.prompt([
-        {
-          type: "input",
-          name: "name",
-          message: "Enter the name of the new equity class:",
-          validate: (input: string) => input.trim().length > 0,
-        },
-        {
-          type: "input",
-          name: "tokenCount",
-          message: "Enter the token count for the new equity class:",
-          validate: (input: string) => {
-            const value = parseInt(input);
-            return !isNaN(value) && value > 0;
-          },
-        },
-        {
-          type: "input",
-          name: "cliffPeriod",
-          message: "Enter the cliff period (in seconds):",
-          validate: (input: string) => {
-            const value = parseInt(input);
-            return !isNaN(value) && value > 0;
-          },
+  if (!confirmUpgrade) {
+    console.log("Upgrade cancelled.");
+    return undefined;
+  }
+
+  // a fork has no access to the deployer key, so act as the proxy admin owner instead
+  const signer = rehearsal ? await impersonateProxyAdminOwner(key, deployment) : undefined;
+  const oldImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+
+  // tokens from before ERC-2612 and voting support are initialized by the upgrade transaction itself
+  const initializeToken = key === "tokenContract" && await getInitializedVersion(proxy) < TOKEN_INITIALIZED_VERSION;
+
+  const ContractFactory = await ethers.getContractFactory(CONTRACT_NAMES[key], signer);
+  const upgradedContract = await upgrades.upgradeProxy(proxy, ContractFactory, {
+    ...getUpgradeOptions(key, deployment),
+    ...(initializeToken ? { call: "initializePermitAndVotes" } : {}),
+  });
+  await upgradedContract.waitForDeployment();
+  console.log(`${CONTRACT_NAMES[key]} upgraded`);
+
+  const upgradeReceipt = await getUpgradeReceipt(upgradedContract);
+  const newImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+  console.log(`Implementation: ${oldImplementation} → ${newImplementation}`);
+
+  if (rehearsal) {
+    console.log(`Rehearsal complete. ${REGISTRY_FILE} was not changed.`);
+  } else {
+    recordUpgrade(deployment.chainId, {
+      contract: key,
+      oldImplementation,
+      newImplementation,
+      timestamp: new Date().toISOString(),
+      txHash: upgradeReceipt?.hash ?? "",
+      blockNumber: upgradeReceipt?.blockNumber ?? 0,
+    });
+    console.log(`Upgrade recorded in ${REGISTRY_FILE}`);
+  }
+
+  if (key === "tokenContract") {
+    if (initializeToken) {
+      console.log("Initialized the ERC-2612 permit domain and voting checkpoints");
+    }
+
+    // tokens from before voting support have no vesting contract to take balances from
+    if (await upgradedContract.vestingContract() === ethers.ZeroAddress) {
+      await (await upgradedContract.setVestingContract(deployment.contracts.vestingContract.proxy)).wait();
+      console.log("Connected VestingContract");
+      await promptUnvestedVotes(upgradedContract, request.countUnvestedVotes);
+    }
+  }
+
+  if (key === "vestingContract") {
+    // the follow-up calls go through the typed contracts, signed by whoever sent the upgrade
+    const [defaultSigner] = await ethers.getSigners();
+    const contracts = await connectContracts(deployment, signer ?? defaultSigner);
+    const { vestingContract } = contracts;
+
+    const equityClassNames = await vestingContract.getEquityClassNames();
+    const decodedNames = equityClassNames.map((name: BytesLike) => 
+      ethers.decodeBytes32String(name)
+    );
+    console.log("Existing equity classes:", decodedNames.join(", "));
+
+    const migrated = await migrateLegacyGrants(vestingContract, deployment.deploymentBlock);
+    console.log(`Gave ${migrated} grant(s) from before grant IDs a grant ID`);
+
+    await seedEquityPools(
+      contracts,
+      deployment.deploymentBlock,
+      request.poolBudgets ?? (request.confirmed ? {} : undefined)
+    );
+
+    const synced = await syncUnvestedBalances(vestingContract, deployment.deploymentBlock);
+    console.log(`Reported unvested balances of ${synced} employee(s) to the token`);
+  }
+
+  return {
+    key,
+    upgradedContract,
+    oldImplementation,
+    newImplementation,
+    upgradeReceipt,
+  };
+}
+
+// settings given here skip their prompts, the equity class offer only belongs to the interactive flow
+export interface DeployOptions {
+  totalTokens?: number;
+  countUnvestedVotes?: boolean;
+  requireApprovals?: boolean;
+  offerEquityClass?: boolean;
+}
+
+export async function deployAndRecord(
+  options: DeployOptions = {}
+): Promise<NetworkDeployment> {
+  const [deployer] = await ethers.getSigners();
+  const { tokenContract, vestingContract, accessControlContract, addresses, deploymentBlock } = await deployContracts();
+
+  await setupContracts(accessControlContract, tokenContract, vestingContract, addresses.vesting, options.totalTokens);
+  await setupApprovalQueue(accessControlContract, vestingContract, addresses.approvalQueue);
+  await promptUnvestedVotes(tokenContract, options.countUnvestedVotes);
+
+  if (options.offerEquityClass ?? true) {
+    await addNewEquityClass(vestingContract);
+  }
+  await promptRequireApprovals(vestingContract, addresses.approvalQueue, options.requireApprovals);
+
+  const deployment: NetworkDeployment = {
+    chainId: await getChainId(),
+    network: (await ethers.provider.getNetwork()).name,
+    deployer: deployer.address,
+    deploymentTime: new Date().toISOString(),
+    deploymentBlock,
+    contracts: {
+      accessControlContract: await describeProxy(addresses.accessControl),
+      tokenContract: await describeProxy(addresses.token),
+      vestingContract: await describeProxy(addresses.vesting),
+      approvalQueueContract: await describeProxy(addresses.approvalQueue),
+    },
+    upgrades: [],
+  };
+  recordDeployment(deployment);
+  console.log(`Deployment data saved to ${REGISTRY_FILE}`);
+
+  return deployment;
+}
+
+export async function promptEquityClass(
+  existingNames: string[] = []
+): Promise<EquityClass> {
+  const { name, tokenCount, scheduleType } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "name",
+      message: "Enter the name of the equity class:",
+      validate: (input: string) => input.trim().length > 0,
+    },
+    {
+      type: "input",
+      name: "tokenCount",
+      message: "Enter the token count per grant:",
+      validate: (input: string) => {
+        const value = parseInt(input);
+        return !isNaN(value) && value > 0;
+      },
+    },
+    {
+      type: "list",
+      name: "scheduleType",
+      message: "Select the vesting schedule type:",
+      choices: [
+        { name: "Step (cliff, then a fixed percentage every period)", value: "step" },
+        { name: "Linear (cliff, then continuous vesting until the end)", value: "linear" },
+        { name: "Custom (explicit table of offsets and cumulative percentages)", value: "custom" },
+      ],
+    },
+  ]);
+
+  const equityClass: EquityClass = {
+    name,
+    tokenCount: parseInt(tokenCount),
+    cliffPeriod: 0,
+    vestingPeriod: 0,
+    vestingPercentage: 0,
+    scheduleType,
+  };
+
+  if (scheduleType === "custom") {
+    const { milestones } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "milestones",
+        message: "Enter milestones as offset-in-seconds:cumulative-percentage pairs (e.g. 31536000:25,63072000:100):",
+        validate: validateMilestones,
+      },
+    ]);
+    equityClass.milestones = parseMilestones(milestones);
+  } else {
+    const { cliffPeriod, vestingPeriod } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "cliffPeriod",
+        message: "Enter the cliff period (in seconds):",
+        validate: (input: string) => {
+          const value = parseInt(input);
+          return !isNaN(value) && value > 0;
         },
-        {
-          type: "input",
-          name: "vestingPeriod",
-          message: "Enter the vesting period (in seconds):",
-          validate: (input: string) => {
-            const value = parseInt(input);
-            return !isNaN(value) && value > 0;
-          },
+      },
+      {
+        type: "input",
+        name: "vestingPeriod",
+        message: scheduleType === "linear"
+          ? "Enter the total vesting duration including the cliff (in seconds):"
+          : "Enter the vesting period (in seconds):",
+        validate: (input: string) => {
+          const value = parseInt(input);
+          return !isNaN(value) && value > 0;
         },
+      },
+    ]);
+    equityClass.cliffPeriod = parseInt(cliffPeriod);
+    equityClass.vestingPeriod = parseInt(vestingPeriod);
+
+    if (scheduleType === "step") {
+      const { vestingPercentage } = await inquirer.prompt([
         {
           type: "input",
           name: "vestingPercentage",
@@ -223,27 +712,50 @@ async function addNewEquityClass(
           },
         },
       ]);
+      equityClass.vestingPercentage = parseInt(vestingPercentage);
+    }
+  }
 
-    const nameBytes32 = ethers.encodeBytes32String(name);
-    await vestingContract.defineEquityClass(
-      nameBytes32,
-      tokenCount,
-      cliffPeriod,
-      vestingPeriod,
-      vestingPercentage
-    );
-    console.log("New equity class added successfully");
+  // an existing class keeps its pool, redefining it only adds a new terms version
+  if (!existingNames.includes(name)) {
+    const { poolBudget } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "poolBudget",
+        message: "Enter the pool budget (total tokens all grants of this class may draw):",
+        validate: (input: string) => {
+          const value = parseInt(input);
+          return !isNaN(value) && value >= equityClass.tokenCount || "The budget must cover at least one grant";
+        },
+      },
+    ]);
+    equityClass.poolBudget = parseInt(poolBudget);
   }
+
+  return equityClass;
 }
 
-async function saveDeploymentData(
-  data: DeploymentData
+async function addNewEquityClass(
+  vestingContract: any
 ) {
-  fs.writeFileSync(
-    "deployment.json", 
-    JSON.stringify(data, null, 2)
-  );
-  console.log("Deployment data saved to deployment.json");
+  const { addEquityClass } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "addEquityClass",
+      message: "Do you want to add a new equity class?",
+      default: false,
+    },
+  ]);
+
+  if (addEquityClass) {
+    const existingNames = (await vestingContract.getEquityClassNames()).map((name: BytesLike) =>
+      ethers.decodeBytes32String(name)
+    );
+    const equityClass = await promptEquityClass(existingNames);
+
+    await defineEquityClass(vestingContract, equityClass);
+    console.log("New equity class added successfully");
+  }
 }
 
 async function main() {
@@ -255,59 +767,81 @@ async function main() {
       type: "list",
       name: "action",
       message: "Select an action:",
-      choices: ["Deploy 🚀", "Upgrade ⬆️"],
+      choices: ["Deploy 🚀", "Upgrade ⬆️", "Add Approval Queue 🗳️"],
     },
   ]);
 
   if (action === "Deploy 🚀") {
-    const { tokenContract, vestingContract, accessControlContract, addresses } = await deployContracts();
+    const existingDeployment = await findDeployment();
+    if (existingDeployment) {
+      const { confirmRedeploy } = await inquirer.prompt([
+        {
+          type: "confirm",
+          name: "confirmRedeploy",
+          message: `Chain ${existingDeployment.chainId} already has a deployment from ${existingDeployment.deploymentTime}. Replace it?`,
+          default: false,
+        },
+      ]);
 
-    await setupContracts(accessControlContract, tokenContract, vestingContract, addresses.vesting);
+      if (!confirmRedeploy) {
+        console.log("Deployment cancelled.");
+        return;
+      }
+    }
 
-    const deploymentData: DeploymentData = {
-      tokenContract: addresses.token,
-      vestingContract: addresses.vesting,
-      accessControlContract: addresses.accessControl,
-      deploymentTime: new Date().toISOString(),
-      network: (await ethers.provider.getNetwork()).name,
-    };
-    await saveDeploymentData(deploymentData);
+    await deployAndRecord();
 
-  } else if (action === "Upgrade ⬆️") {
-    if (!fs.existsSync("deployment.json")) {
-      console.error("deployment.json not found. Please deploy the contracts first.");
+  } else if (action === "Add Approval Queue 🗳️") {
+    // deployments from before the queue existed get it next to the upgraded VestingContract
+    const deployment = await loadDeployment();
+    if (deployment.contracts.approvalQueueContract) {
+      console.log(`Chain ${deployment.chainId} already has an approval queue at ${deployment.contracts.approvalQueueContract.proxy}`);
       return;
     }
 
-    const deploymentData: DeploymentData = JSON.parse(
-      fs.readFileSync("deployment.json", "utf-8")
+    const vestingContract = await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy);
+    const accessControlContract = await ethers.getContractAt("AccessControlContract", deployment.contracts.accessControlContract.proxy);
+    const { approvalQueueAddress } = await deployApprovalQueue(
+      deployment.contracts.vestingContract.proxy,
+      deployment.contracts.accessControlContract.proxy
     );
+    await setupApprovalQueue(accessControlContract, vestingContract, approvalQueueAddress);
+    await promptRequireApprovals(vestingContract, approvalQueueAddress);
 
-    const upgradedVestingContract = await upgradeContracts(deploymentData);
+    deployment.contracts.approvalQueueContract = await describeProxy(approvalQueueAddress);
+    recordDeployment(deployment);
+    console.log(`Approval queue recorded in ${REGISTRY_FILE}`);
 
-    await addNewEquityClass(upgradedVestingContract);
+  } else if (action === "Upgrade ⬆️") {
+    // REHEARSAL=true FORK_URL=<rpc> npx hardhat run scripts/deploy.ts runs the upgrade against a local fork
+    const rehearsal = process.env.REHEARSAL === "true";
+    const forkedChainId = rehearsal ? await getForkedChainId() : undefined;
+    if (rehearsal && forkedChainId === undefined) {
+      console.error("Rehearsal needs the hardhat network to fork a live chain. Set FORK_URL and run without --network.");
+      return;
+    }
 
-    const { confirmUpgrade } = await inquirer.prompt([
-      {
-        type: "confirm",
-        name: "confirmUpgrade",
-        message: "Are you sure you want to proceed with the upgrade?",
-        default: false,
-      },
-    ]);
+    const deployment = await loadDeployment(forkedChainId);
 
-    if (!confirmUpgrade) {
-      console.log("Upgrade cancelled.");
+    const result = await upgradeContracts(deployment, rehearsal);
+    if (!result) {
       return;
     }
 
+    if (result.key === "vestingContract" && !rehearsal) {
+      await addNewEquityClass(result.upgradedContract);
+    }
+
     console.log("Upgrade completed successfully.");
   }
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
\ No newline at end of file
+// the sandbox reuses the deployment steps without running the interactive flow
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
\ No newline at end of file
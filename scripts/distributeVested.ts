@@ -0,0 +1,49 @@
+import { ethers } from "hardhat";
+import {
+  DEFAULT_DISTRIBUTION_BATCH_SIZE,
+  findClaimableEmployees,
+  printClaimableEmployees,
+  distributeInBatches,
+  printDistributionReport
+} from "./utils/distribution";
+import { loadDeployment } from "./utils/registry";
+
+// Usage: [BATCH_SIZE=50] [DRY_RUN=true] npx hardhat run scripts/distributeVested.ts --network <network>
+async function main() {
+  console.log("Loading deployment data...");
+  const deployment = await loadDeployment();
+  const vestingContract = await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy);
+
+  const [signer] = await ethers.getSigners();
+  console.log("Connected with address:", signer.address);
+
+  const batchSize = parseInt(process.env.BATCH_SIZE || "") || DEFAULT_DISTRIBUTION_BATCH_SIZE;
+  const maxBatchSize = await vestingContract.MAX_DISTRIBUTION_BATCH();
+  if (batchSize > maxBatchSize) {
+    throw new Error(`BATCH_SIZE can't exceed the contract limit of ${maxBatchSize}`);
+  }
+
+  console.log("Finding employees with claimable tokens...");
+  const targets = await findClaimableEmployees(vestingContract, deployment.deploymentBlock);
+  if (targets.length === 0) {
+    console.log("No employee has tokens to claim. Nothing to distribute.");
+    return;
+  }
+
+  printClaimableEmployees(targets);
+  if (process.env.DRY_RUN === "true") {
+    return;
+  }
+
+  const results = await distributeInBatches(vestingContract, targets, batchSize);
+  printDistributionReport(results);
+
+  if (results.some((result) => result.status === "failed")) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
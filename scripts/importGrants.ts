@@ -0,0 +1,49 @@
+import { ethers } from "hardhat";
+import {
+  parseRoster,
+  validateRoster,
+  printRosterPreview,
+  submitGrants,
+  writeGrantReport
+} from "./utils/roster";
+import { loadDeployment } from "./utils/registry";
+import { connectContracts } from "./utils/commands";
+
+// Usage: ROSTER=hires.csv [SKIP_INVALID=true] npx hardhat run scripts/importGrants.ts --network <network>
+async function main() {
+  const rosterPath = process.env.ROSTER;
+  if (!rosterPath) {
+    throw new Error("Set ROSTER to the path of a CSV or JSON roster file");
+  }
+
+  console.log("Loading deployment data...");
+  const deployment = await loadDeployment();
+  const [signer] = await ethers.getSigners();
+  const contracts = await connectContracts(deployment, signer);
+  console.log("Connected with address:", signer.address);
+
+  const entries = parseRoster(rosterPath);
+  if (entries.length === 0) {
+    console.log("Roster is empty. Nothing to import.");
+    return;
+  }
+
+  const validated = await validateRoster(contracts.vestingContract, entries);
+  printRosterPreview(validated);
+
+  const hasInvalidRows = validated.some((entry) => entry.errors.length > 0);
+  if (hasInvalidRows && process.env.SKIP_INVALID !== "true") {
+    console.error("Roster has invalid rows. Fix them or set SKIP_INVALID=true to grant only the valid rows.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const results = await submitGrants(contracts, validated);
+  const reportPath = writeGrantReport(rosterPath, results);
+  console.log("Grant report written to", reportPath);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,204 +1,1695 @@
 import { ethers } from "hardhat";
+import { Wallet } from "ethers";
 import inquirer from "inquirer";
-import fs from "fs";
 import Table from "cli-table3";
+import {
+  parseRoster,
+  validateRoster,
+  printRosterPreview,
+  submitGrants,
+  writeGrantReport
+} from "./utils/roster";
+import {
+  CapTableRow,
+  buildCapTable,
+  printCapTable,
+  exportCapTableCsv,
+  exportCapTableJson
+} from "./utils/capTable";
+import {
+  loadVestingSchedule,
+  projectVestingTimeline,
+  printVestingTimeline,
+  checkConsistency
+} from "./utils/vestingEngine";
+import { ROLE_NAMES, RoleName, getRoleIds } from "./utils/roles";
+import {
+  PAUSE_SCOPES,
+  encodePauseScopes,
+  getPausedScopes,
+  printPauseBanner
+} from "./utils/pause";
+import {
+  findClaimableEmployees,
+  printClaimableEmployees,
+  distributeInBatches,
+  printDistributionReport
+} from "./utils/distribution";
+import {
+  getClaimedAmount,
+  loadSignedClaims,
+  printRelayResults,
+  relaySignedClaims,
+  signClaimRequest,
+  writeSignedClaim
+} from "./utils/claimSignatures";
+import {
+  buildVotingPowerReport,
+  getVotingPower,
+  printVotingPower,
+  printVotingPowerReport,
+  syncUnvestedBalances
+} from "./utils/voting";
+import { DEFAULT_KEYSTORE_DIR, createKeystore, identityChoices, listKeystores, unlockKeystore } from "./utils/keystore";
+import { explainTransferRestriction, getTransferStatus } from "./utils/transferRules";
+import { decodeContractError, describeError, sendTransaction } from "./utils/transactions";
+import { NetworkDeployment, loadDeployment } from "./utils/registry";
+import {
+  ProposalRow,
+  loadProposals,
+  printProposals
+} from "./utils/proposals";
+import { EquityContracts, sendOrPropose } from "./utils/commands";
+import { EquityClass, equityClassCalls, promptEquityClass } from "./deploy";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
-async function main() {
+const SECONDS_PER_DAY = 86400;
+// keeps each acceleration transaction well under the block gas limit
+const ACCELERATION_BATCH_SIZE = 50;
+
+// any of these roles opens the admin menu, MINTER_ROLE is left out as only the vesting contract mints
+const MANAGEMENT_ROLES: RoleName[] = ["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE", "GRANTER_ROLE", "APPROVER_ROLE", "PAUSER_ROLE"];
+
+// admin menu entries and the roles the contracts check for them, an empty list is open to every account
+const ADMIN_ACTIONS: { name: string; roles: RoleName[] }[] = [
+  { name: "View Company Tokens 💼", roles: ["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE"] },
+  { name: "View Employee Equity 📋", roles: [] },
+  { name: "View Cap Table 📊", roles: [] },
+  { name: "Manage Equity Classes 🏷️", roles: ["ADMIN_ROLE"] },
+  { name: "Grant Equity 🎁", roles: ["GRANTER_ROLE"] },
+  { name: "Import Grants 📥", roles: ["GRANTER_ROLE"] },
+  { name: "Terminate Employee 🛑", roles: ["ADMIN_ROLE"] },
+  { name: "Accelerate Vesting ⚡", roles: ["ADMIN_ROLE"] },
+  { name: "Wallet Recovery 🔁", roles: ["GRANTER_ROLE", "APPROVER_ROLE"] },
+  { name: "Distribute Vested Tokens 📤", roles: ["GRANTER_ROLE"] },
+  { name: "Pending Proposals 🗳️", roles: ["ADMIN_ROLE", "GRANTER_ROLE", "APPROVER_ROLE"] },
+  { name: "Relay Signed Claims 📨", roles: [] },
+  { name: "Voting Power 🏛️", roles: [] },
+  { name: "Manage Roles 🛡️", roles: ["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE"] },
+  { name: "Transfer Restrictions 🔒", roles: ["ADMIN_ROLE"] },
+  { name: "Pause/Unpause ⏯️", roles: ["PAUSER_ROLE"] },
+  { name: "Transfer Ownership 🔑", roles: ["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE"] },
+  { name: "Accept Ownership 🤝", roles: [] },
+];
+
+export type CLIMenu = "Admin" | "Employee";
+
+// an account from the hardhat network config or an identity unlocked from a keystore
+export type CLISigner = HardhatEthersSigner | Wallet;
+
+export interface CLIContext {
+  signer: CLISigner;
+  // the menu follows the roles of the new signer
+  switchSigner: (newSigner: CLISigner) => void;
+}
+
+// extra menu entries, e.g. the sandbox controls, shown in both menus above Exit
+export interface CLIAction {
+  name: string;
+  run: (cli: CLIContext) => Promise<void>;
+}
+
+export interface CLIOptions {
+  deployment?: NetworkDeployment;
+  extraActions?: CLIAction[];
+}
+
+export async function startCLI(
+  options: CLIOptions = {}
+) {
   console.log("Loading deployment data...");
-  const deploymentData = JSON.parse(fs.readFileSync("deployment.json", "utf-8"));
+  const deployment = options.deployment ?? await loadDeployment();
+  const extraActions = options.extraActions ?? [];
+
+  console.log("Connecting to contracts...");
+  let vestingContract = await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy);
+  let accessControlContract = await ethers.getContractAt("AccessControlContract", deployment.contracts.accessControlContract.proxy);
+  let tokenContract = await ethers.getContractAt("TokenContract", deployment.contracts.tokenContract.proxy);
+  let approvalQueueContract = deployment.contracts.approvalQueueContract
+    ? await ethers.getContractAt("ApprovalQueueContract", deployment.contracts.approvalQueueContract.proxy)
+    : undefined;
+  
+  const [networkSigner] = await ethers.getSigners();
+  let signer: CLISigner = networkSigner;
+
+  // set when the current menu should hand over, "Detect" picks the menu from the signer's roles
+  let nextMenu: CLIMenu | "Detect" | undefined;
+
+  const cli: CLIContext = {
+    get signer() {
+      return signer;
+    },
+    switchSigner(newSigner) {
+      signer = newSigner;
+      vestingContract = vestingContract.connect(newSigner);
+      accessControlContract = accessControlContract.connect(newSigner);
+      tokenContract = tokenContract.connect(newSigner);
+      approvalQueueContract = approvalQueueContract?.connect(newSigner);
+      nextMenu = "Detect";
+      console.log("Switched to address:", newSigner.address);
+    },
+  };
+
+  async function runExtraAction(
+    choice: string
+  ) {
+    const action = extraActions.find((extraAction) => extraAction.name === choice);
+    if (action) {
+      await action.run(cli);
+    }
+  }
+
+  const roleIds = await getRoleIds(accessControlContract);
+
+  async function detectRoles(
+    address: string
+  ): Promise<RoleName[]> {
+    try {
+      const held = await Promise.all(
+        ROLE_NAMES.map((roleName) => accessControlContract.hasRole(roleIds[roleName], address))
+      );
+      return ROLE_NAMES.filter((_, i) => held[i]);
+    } catch (error) {
+      console.log("Error checking roles:", (error as Error).message);
+      return [];
+    }
+  }
+
+  async function checkRole(
+    address: string
+  ): Promise<string> {
+    const roles = await detectRoles(address);
+    if (roles.includes("DEFAULT_ADMIN_ROLE") || roles.includes("ADMIN_ROLE")) {
+      return "Admin";
+    }
+    if (roles.includes("GRANTER_ROLE")) {
+      return "Granter";
+    }
+    if (roles.includes("APPROVER_ROLE")) {
+      return "Approver";
+    }
+    if (roles.includes("PAUSER_ROLE")) {
+      return "Pauser";
+    }
+    return "Employee";
+  }
+
+  async function addIdentity(
+    keystoreDir: string
+  ) {
+    const { label, privateKey, password } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "label",
+        message: "Enter a label for the identity (e.g. admin, alice): 🏷️",
+        validate: (input: string) => /^[A-Za-z0-9_-]+$/.test(input) || "Use letters, digits, '-' and '_' only",
+      },
+      {
+        type: "password",
+        name: "privateKey",
+        mask: "*",
+        message: "Enter the private key to import (leave empty to create a new account): 🔑",
+        validate: (input: string) => input === "" || /^(0x)?[0-9a-fA-F]{64}$/.test(input) || "Please enter a 32-byte hex private key",
+      },
+      {
+        type: "password",
+        name: "password",
+        mask: "*",
+        message: "Choose a password for the keystore: 🔐",
+        validate: (input: string) => input.length >= 8 || "Use at least 8 characters",
+      },
+    ]);
+    await inquirer.prompt([
+      {
+        type: "password",
+        name: "confirmPassword",
+        mask: "*",
+        message: "Repeat the password: 🔐",
+        validate: (input: string) => input === password || "The passwords don't match",
+      },
+    ]);
+
+    console.log("Encrypting keystore...");
+    const identity = await createKeystore(label, privateKey || Wallet.createRandom().privateKey, password, keystoreDir);
+    console.log(`Saved ${identity.label} (${identity.address}) to ${identity.file} ✅`);
+  }
+
+  // returns false when the user backs out and the current signer stays active,
+  // the selection at startup has no menu to go back to
+  async function selectIdentity(
+    canGoBack: boolean = true
+  ): Promise<boolean> {
+    const keystoreDir = process.env.KEYSTORE_DIR || DEFAULT_KEYSTORE_DIR;
+
+    while (true) {
+      const identities = listKeystores(keystoreDir);
+      const { identity } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "identity",
+          message: "Select an identity:",
+          choices: identityChoices(identities, networkSigner?.address, canGoBack),
+        },
+      ]);
+
+      if (identity === "back") {
+        return false;
+      }
+      if (identity === "network") {
+        cli.switchSigner(networkSigner);
+        return true;
+      }
+      if (identity === "add") {
+        try {
+          await addIdentity(keystoreDir);
+        } catch (error) {
+          console.log(`Could not save the identity: ${(error as Error).message} ❌`);
+        }
+        continue;
+      }
+
+      const keystore = identities.find((entry) => entry.file === identity)!;
+      const { password } = await inquirer.prompt([
+        { type: "password", name: "password", mask: "*", message: `Password for ${keystore.label}: 🔐` },
+      ]);
+      try {
+        console.log("Unlocking keystore...");
+        cli.switchSigner(await unlockKeystore(keystore, password));
+        return true;
+      } catch {
+        console.log("Wrong password or unreadable keystore. ❌");
+      }
+    }
+  }
+
+  // the contracts as connected to the current signer, for the helpers shared with the equity tasks
+  function equityContracts(): EquityContracts {
+    return { vestingContract, tokenContract, accessControlContract, approvalQueueContract };
+  }
+
+  async function grantEquity(
+    alwaysPropose: boolean = false
+  ) {
+    const equityClassNames = await vestingContract.getEquityClassNames();
+    const activeClassNames: string[] = [];
+    for (const name of equityClassNames) {
+      if (!(await vestingContract.getEquityClassPool(name)).retired) {
+        activeClassNames.push(name);
+      }
+    }
+
+    if (activeClassNames.length === 0) {
+      console.log("No active equity classes. Define one under Manage Equity Classes first. ❌");
+      return;
+    }
+
+    const equityClassChoices = await Promise.all(
+      activeClassNames.map(async (name: string) => {
+        const [tokenCount, cliffPeriod, vestingPeriod, vestingPercentage] = await vestingContract.getEquityClassDetails(name);
+        const [budget, allocated] = await vestingContract.getEquityClassPool(name);
+        const [scheduleType, milestones] = await vestingContract.getVestingSchedule(name);
+        const formattedPercentage = Number(vestingPercentage) / 100;
+        const schedule = [
+          `Step, Cliff: ${cliffPeriod}, Vesting: ${vestingPeriod}, Percentage: ${formattedPercentage}%`,
+          `Linear, Cliff: ${cliffPeriod}, Duration: ${vestingPeriod}`,
+          `Custom, ${milestones.length} milestones ending at ${vestingPeriod}`,
+        ][Number(scheduleType)];
+        return {
+          name: `${ethers.decodeBytes32String(name)} (Tokens: ${tokenCount}, ${schedule}, Pool left: ${budget - allocated})`,
+          value: name,
+        };
+      })
+    );
+
+    const { employeeAddress, equityClassName } = await inquirer.prompt([
+      { type: "input", name: "employeeAddress", message: "Enter employee address: 🙍‍♂️" },
+      {
+        type: "list",
+        name: "equityClassName",
+        message: "Select equity class: 📊",
+        choices: equityClassChoices,
+      },
+    ]);
+
+    const [tokenCount] = await vestingContract.getEquityClassDetails(equityClassName);
+    const [balance, obligations] = await vestingContract.getSolvency();
+    if (balance < obligations + tokenCount) {
+      console.log(`The vesting contract holds ${balance} tokens and owes ${obligations}, so it can't back another ${tokenCount}. Mint more tokens to it first. ❌`);
+      return;
+    }
+
+    const [maxBackdate, maxForwardDate] = await vestingContract.getStartTimeLimits();
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const { startDate } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "startDate",
+        message: "Enter vesting start date (YYYY-MM-DD, leave empty for now): 📅",
+        validate: (input: string) => {
+          if (!input.trim()) {
+            return true;
+          }
+          const startTime = Math.floor(Date.parse(input.trim()) / 1000);
+          if (isNaN(startTime)) {
+            return "Please enter a valid date";
+          }
+          return startTime + Number(maxBackdate) >= now && startTime <= now + Number(maxForwardDate)
+            || `The start date must be at most ${formatDays(maxBackdate)} back and ${formatDays(maxForwardDate)} ahead`;
+        },
+      },
+    ]);
+
+    const grantId = await vestingContract.getGrantCount(employeeAddress);
+    const { proposalId } = startDate.trim()
+      ? await sendOrPropose(equityContracts(), {
+        method: "grantEquityWithStartTime",
+        args: [employeeAddress, equityClassName, Math.floor(Date.parse(startDate.trim()) / 1000)],
+      }, alwaysPropose)
+      : await sendOrPropose(equityContracts(), { method: "grantEquity", args: [employeeAddress, equityClassName] }, alwaysPropose);
+    if (proposalId === undefined) {
+      console.log(`Equity granted successfully with grant ID ${grantId}! ✅`);
+    }
+  }
+
+  function formatDays(
+    seconds: bigint
+  ): string {
+    return `${Number(seconds) / SECONDS_PER_DAY} day(s)`;
+  }
+
+  async function selectAccelerationTargets(): Promise<CapTableRow[]> {
+    const { scope } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "scope",
+        message: "Accelerate which grants?",
+        choices: ["Selected Grants 🙍‍♂️", "Whole Equity Classes 🏷️"],
+      },
+    ]);
+
+    const capTable = await buildCapTable(vestingContract, deployment.deploymentBlock);
+    const activeRows = capTable.rows.filter((row) => !row.terminated && row.unvestedTokens > 0n);
+
+    if (scope === "Whole Equity Classes 🏷️") {
+      const { equityClasses } = await inquirer.prompt([
+        {
+          type: "checkbox",
+          name: "equityClasses",
+          message: "Select equity classes: 📊",
+          choices: [...capTable.equityClasses.keys()],
+        },
+      ]);
+      return activeRows.filter((row) => equityClasses.includes(row.equityClass));
+    }
+
+    const { grants } = await inquirer.prompt([
+      {
+        type: "checkbox",
+        name: "grants",
+        message: "Select grants: 🎁",
+        choices: activeRows.map((row) => ({
+          name: `${row.employee} grant ${row.grantId} (${row.equityClass}, ${row.unvestedTokens} unvested)`,
+          value: row,
+        })),
+      },
+    ]);
+    return grants;
+  }
+
+  async function accelerateVesting() {
+    const targets = await selectAccelerationTargets();
+    if (targets.length === 0) {
+      console.log("No active grants with unvested tokens selected. ❌");
+      return;
+    }
+
+    const { percentage } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "percentage",
+        message: "Percentage of unvested tokens to vest now (e.g. 100 for single trigger, 50 for half): ⚡",
+        validate: (input: string) => {
+          const value = Number(input);
+          return !isNaN(value) && value > 0 && value <= 100 || "Please enter a percentage between 0 and 100";
+        },
+      },
+    ]);
+    const basisPoints = Math.round(Number(percentage) * 100);
+
+    const table = new Table({
+      head: ["Employee", "Grant", "Equity Class", "Unvested", "Accelerated"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+
+    for (const row of targets) {
+      table.push([
+        row.employee,
+        row.grantId.toString(),
+        row.equityClass,
+        row.unvestedTokens.toString(),
+        ((row.unvestedTokens * BigInt(basisPoints)) / 10000n).toString()
+      ]);
+    }
+
+    console.log(table.toString());
+
+    const { confirmAcceleration } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmAcceleration",
+        message: `Vest ${basisPoints / 100}% of the unvested tokens of these ${targets.length} grant(s) now? This can't be undone.`,
+        default: false,
+      },
+    ]);
+
+    if (!confirmAcceleration) {
+      console.log("Acceleration cancelled.");
+      return;
+    }
+
+    for (let i = 0; i < targets.length; i += ACCELERATION_BATCH_SIZE) {
+      const batch = targets.slice(i, i + ACCELERATION_BATCH_SIZE);
+      await sendTransaction(vestingContract.accelerateGrants, [
+        batch.map((row) => row.employee),
+        batch.map((row) => row.grantId),
+        basisPoints
+      ]);
+      console.log(`Accelerated ${i + batch.length}/${targets.length} grant(s) ⚡`);
+    }
+    console.log("Acceleration complete ✅");
+  }
+
+  async function importGrants() {
+    const { rosterPath } = await inquirer.prompt([
+      { type: "input", name: "rosterPath", message: "Enter roster file path (CSV or JSON): 📄" },
+    ]);
+
+    let entries;
+    try {
+      entries = parseRoster(rosterPath.trim());
+    } catch (error) {
+      console.log("Could not read roster:", (error as Error).message, "❌");
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log("Roster is empty. Nothing to import. ❌");
+      return;
+    }
+
+    const validated = await validateRoster(vestingContract, entries);
+    printRosterPreview(validated);
+
+    const validCount = validated.filter((entry) => entry.errors.length === 0).length;
+    if (validCount === 0) {
+      console.log("No valid rows to grant. ❌");
+      return;
+    }
+
+    const { confirmImport } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmImport",
+        message: `Grant equity to ${validCount} employee(s)? Invalid rows will be skipped.`,
+        default: false,
+      },
+    ]);
+
+    if (!confirmImport) {
+      console.log("Import cancelled.");
+      return;
+    }
+
+    const results = await submitGrants(equityContracts(), validated);
+    const reportPath = writeGrantReport(rosterPath.trim(), results);
+    console.log("Grant report written to", reportPath, "📄");
+  }
+
+  async function terminateEmployee() {
+    const { employeeAddress, terminationDate } = await inquirer.prompt([
+      { type: "input", name: "employeeAddress", message: "Enter employee address: 🙍‍♂️" },
+      { type: "input", name: "terminationDate", message: "Enter termination date (YYYY-MM-DD, leave empty for now): 📅" },
+    ]);
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const now = latestBlock!.timestamp;
+    const terminationTime = terminationDate.trim()
+      ? Math.floor(Date.parse(terminationDate.trim()) / 1000)
+      : now;
+
+    if (isNaN(terminationTime) || terminationTime > now) {
+      console.log("Termination date must be a valid date that is not in the future. ❌");
+      return;
+    }
+
+    const grants = await vestingContract.getGrants(employeeAddress);
+    if (grants.length === 0) {
+      console.log("This address has no equity granted. ❌");
+      return;
+    }
+
+    const activeGrants = grants.filter((grant) => grant.terminationTime === 0n);
+    if (activeGrants.length === 0) {
+      console.log("This employee has already been terminated. ❌");
+      return;
+    }
+
+    const [vestedTokens, forfeitedTokens] = await vestingContract.previewTermination(employeeAddress, terminationTime);
+    const claimedTokens = await vestingContract.getClaimedTokens(employeeAddress);
+
+    const table = new Table({
+      head: ["Address", "Active Grants", "Termination Date", "Vested Tokens", "Already Claimed", "Forfeited Tokens"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+
+    table.push([
+      employeeAddress,
+      activeGrants.map((grant) => ethers.decodeBytes32String(grant.equityClass)).join(", "),
+      new Date(terminationTime * 1000).toISOString(),
+      vestedTokens.toString(),
+      claimedTokens.toString(),
+      forfeitedTokens.toString()
+    ]);
+
+    console.log(table.toString());
+
+    const { confirmTermination } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmTermination",
+        message: `Terminate this employee and return ${forfeitedTokens} unvested tokens to the company?`,
+        default: false,
+      },
+    ]);
+
+    if (!confirmTermination) {
+      console.log("Termination cancelled.");
+      return;
+    }
+
+    await sendTransaction(vestingContract.terminateEmployee, [employeeAddress, terminationTime]);
+    console.log("Employee terminated. Vesting is frozen and unvested tokens were returned to the company. ✅");
+  }
+
+  // a lost or compromised wallet: a granter requests the move, a different approver signs it off
+  async function manageWalletRecovery() {
+    if (!approvalQueueContract) {
+      console.log("Wallet recovery goes through the approval queue. Add one with \"Add Approval Queue 🗳️\" in scripts/deploy.ts. ❌");
+      return;
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "Wallet recovery:",
+        choices: ["Request Migration 📝", "Approve Migration ✅", "Back ↩️"],
+      },
+    ]);
+
+    if (action === "Request Migration 📝") {
+      await requestWalletMigration();
+    } else if (action === "Approve Migration ✅") {
+      await approveWalletMigration();
+    }
+  }
+
+  async function requestWalletMigration() {
+    const validateAddress = (input: string) => ethers.isAddress(input.trim()) || "Please enter a valid address";
+    const { oldAddress, newAddress } = await inquirer.prompt([
+      { type: "input", name: "oldAddress", message: "Enter the employee's old address: 🙍‍♂️", validate: validateAddress },
+      { type: "input", name: "newAddress", message: "Enter the employee's new address: 🆕", validate: validateAddress },
+    ]);
+    const from = ethers.getAddress(oldAddress.trim());
+    const to = ethers.getAddress(newAddress.trim());
+
+    if (from === to) {
+      console.log("The new address must differ from the old one. ❌");
+      return;
+    }
+    const grants = await vestingContract.getGrants(from);
+    if (grants.length === 0) {
+      console.log("This address has no equity granted. ❌");
+      return;
+    }
+    if ((await vestingContract.getGrantCount(to)) > 0n) {
+      console.log("The new address already holds grants, pick an unused one. ❌");
+      return;
+    }
+
+    const table = new Table({
+      head: ["Grant ID", "Equity Class", "Total Tokens", "Start Date", "Claimed Tokens", "Terminated"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+
+    grants.forEach((grant, grantId) => {
+      table.push([
+        grantId.toString(),
+        ethers.decodeBytes32String(grant.equityClass),
+        grant.totalTokens.toString(),
+        new Date(Number(grant.startTime) * 1000).toISOString().split("T")[0],
+        grant.claimedTokens.toString(),
+        grant.terminationTime !== 0n ? new Date(Number(grant.terminationTime) * 1000).toISOString().split("T")[0] : "No"
+      ]);
+    });
+
+    console.log(table.toString());
+
+    const { confirmMigration } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmMigration",
+        message: `Request moving ${grants.length} grant(s) to ${to}? ${from} can't hold grants afterwards.`,
+        default: false,
+      },
+    ]);
+
+    if (!confirmMigration) {
+      console.log("Migration request cancelled.");
+      return;
+    }
+
+    await sendOrPropose(equityContracts(), { method: "migrateGrants", args: [from, to] }, true);
+  }
+
+  async function approveWalletMigration() {
+    const proposal = await selectProposal("Select migration to approve: ✅", ["Pending", "Approved"], "migrateGrants");
+    if (!proposal) {
+      return;
+    }
+
+    if (proposal.state === "Pending") {
+      if (proposal.proposer === signer.address) {
+        console.log("You requested this migration yourself. A different approver must approve it. ❌");
+        return;
+      }
+      await sendTransaction(approvalQueueContract!.approve, [proposal.id]);
+      console.log(`Proposal ${proposal.id} approved ✅`);
+    }
+
+    await sendTransaction(approvalQueueContract!.execute, [proposal.id]);
+    console.log(`Grants migrated: ${proposal.action} 🔁`);
+  }
+
+  async function claimVestedTokens() {
+    try {
+      // the pre-flight call tells a running cliff apart from nothing left to claim
+      const receipt = await sendTransaction(vestingContract.connect(signer).claimVestedTokens, []);
+      console.log(`Successfully claimed ${getClaimedAmount(vestingContract, receipt).toString()} tokens! 💰`);
+    } catch (error) {
+      console.log(`${describeError(error)} ❌`);
+    }
+  }
+
+  async function signClaimRequestFile() {
+    const claimable = await vestingContract.calculateVestedTokens(signer.address);
+    if (claimable === 0n) {
+      console.log("Nothing is claimable right now. The request will still cover whatever has vested when it is relayed.");
+    } else {
+      console.log(`${claimable} tokens are claimable right now.`);
+    }
+
+    const { hours } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "hours",
+        message: "How many hours should the request stay valid? ⏳",
+        default: "24",
+        validate: (input: string) => {
+          const value = Number(input);
+          return !isNaN(value) && value > 0 || "Please enter a positive number of hours";
+        },
+      },
+    ]);
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const deadline = latestBlock!.timestamp + Math.round(Number(hours) * 3600);
+    const claim = await signClaimRequest(signer, vestingContract, deadline);
+    const claimPath = writeSignedClaim(claim, process.env.CLAIMS_DIR);
+
+    console.log(`Signed claim request written to ${claimPath} ✍️`);
+    console.log("Hand it to a relayer, who pays the gas. The tokens are sent to your address.");
+  }
+
+  async function relayClaims() {
+    const claims = loadSignedClaims(process.env.CLAIMS_DIR);
+    if (claims.length === 0) {
+      console.log("No signed claims to relay. ❌");
+      return;
+    }
+
+    printRelayResults(await relaySignedClaims(vestingContract, claims));
+  }
+
+  async function promptSnapshotBlock(): Promise<number> {
+    const latestBlock = await ethers.provider.getBlockNumber();
+    const { snapshotBlock } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "snapshotBlock",
+        message: `Enter the snapshot block (${deployment.deploymentBlock} to ${latestBlock}): 🧱`,
+        default: latestBlock.toString(),
+        validate: (input: string) => {
+          const value = Number(input);
+          return Number.isInteger(value) && value >= deployment.deploymentBlock && value <= latestBlock
+            || `Please enter a block from ${deployment.deploymentBlock} to ${latestBlock}`;
+        },
+      },
+    ]);
+    return Number(snapshotBlock);
+  }
+
+  async function delegateVotes() {
+    const currentDelegate = await tokenContract.delegates(signer.address);
+    console.log(`Your votes are currently delegated to ${currentDelegate === ethers.ZeroAddress ? "nobody" : currentDelegate}`);
+
+    const { delegatee } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "delegatee",
+        message: "Enter the address to delegate to (leave empty to vote yourself): 🗳️",
+        validate: (input: string) => input === "" || ethers.isAddress(input) || "Please enter a valid address",
+      },
+    ]);
+
+    await sendTransaction(tokenContract.delegate, [delegatee || signer.address]);
+    console.log(`Votes delegated to ${delegatee || "yourself"} ✅`);
+  }
+
+  async function viewVotingPower() {
+    const { account } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "account",
+        message: "Enter address (leave empty for your own): 🙍‍♂️",
+        validate: (input: string) => input === "" || ethers.isAddress(input) || "Please enter a valid address",
+      },
+    ]);
+    const blockNumber = await promptSnapshotBlock();
+
+    printVotingPower(await getVotingPower(tokenContract, account || signer.address, blockNumber));
+  }
+
+  async function manageVoting() {
+    while (true) {
+      const unvestedCounted = await tokenContract.unvestedVotesEnabled();
+      console.log(`Unvested tokens ${unvestedCounted ? "count" : "do not count"} toward grantee votes`);
+
+      const { action } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "action",
+          message: "Voting power:",
+          choices: [
+            "Voting Power Report 📈",
+            "View Voting Power at Block 🔍",
+            unvestedCounted ? "Stop Counting Unvested Votes ➖" : "Count Unvested Votes ➕",
+            "Sync Unvested Balances 🔄",
+            "Back ↩️"
+          ],
+        },
+      ]);
+
+      if (action === "Back ↩️") {
+        return;
+      }
+
+      if (action === "Voting Power Report 📈") {
+        const blockNumber = await promptSnapshotBlock();
+        console.log("Scanning delegations...");
+        printVotingPowerReport(await buildVotingPowerReport(tokenContract, deployment.deploymentBlock, blockNumber));
+      } else if (action === "View Voting Power at Block 🔍") {
+        await viewVotingPower();
+      } else if (action === "Sync Unvested Balances 🔄") {
+        const synced = await syncUnvestedBalances(vestingContract, deployment.deploymentBlock);
+        console.log(`Reported unvested balances of ${synced} employee(s) to the token ✅`);
+      } else {
+        // the token refuses once any grant balance is tracked, so this is mostly a setup-time choice
+        const totalUnvested = await tokenContract.totalUnvestedBalance();
+        if (totalUnvested > 0n) {
+          console.log(`${totalUnvested} unvested tokens are already tracked, the setting can no longer change. ❌`);
+          continue;
+        }
+        await sendTransaction(tokenContract.setUnvestedVotesEnabled, [!unvestedCounted]);
+        console.log(`Unvested tokens ${unvestedCounted ? "no longer count" : "now count"} toward grantee votes ✅`);
+      }
+    }
+  }
+
+  async function viewEmployeeEquity(
+    address?: string
+  ) {
+    const employeeAddress = address || signer.address;
+    
+    const grants = await vestingContract.getGrants(employeeAddress);
+    if (grants.length === 0) {
+      const movedTo = await vestingContract.migratedWallets(employeeAddress);
+      if (movedTo !== ethers.ZeroAddress) {
+        console.log(`\n🔁 The grants of ${employeeAddress} were moved to ${movedTo}.`);
+        return;
+      }
+    }
+
+    const table = new Table({
+      head: ["Address", "Grant ID", "Equity Class", "Total Tokens", "Available to Release", "Released Tokens", "Remaining Tokens", "Vesting Done"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+
+    const formatPercentage = (claimed: bigint, total: bigint) => {
+      const percentage = total > 0n ? Number((claimed * 100n) / total) : 0;
+      return `${percentage.toFixed(2)}%`;
+    };
+
+    let totalTokens = 0n;
+    let claimedTokens = 0n;
+    for (let grantId = 0; grantId < grants.length; grantId++) {
+      const grant = grants[grantId];
+      const availableToRelease = await vestingContract.calculateGrantVestedTokens(employeeAddress, grantId);
+      const status = grant.terminationTime !== 0n ? " (terminated)" : "";
+
+      table.push([
+        employeeAddress,
+        grantId.toString(),
+        `${ethers.decodeBytes32String(grant.equityClass)}${status}`,
+        grant.totalTokens.toString(),
+        availableToRelease.toString(),
+        grant.claimedTokens.toString(),
+        (grant.totalTokens - grant.claimedTokens).toString(),
+        formatPercentage(grant.claimedTokens, grant.totalTokens)
+      ]);
+
+      totalTokens += grant.totalTokens;
+      claimedTokens += grant.claimedTokens;
+    }
+
+    const availableToRelease = await vestingContract.calculateVestedTokens(employeeAddress);
+    table.push([
+      employeeAddress,
+      "Total",
+      `${grants.length} grant(s)`,
+      totalTokens.toString(),
+      availableToRelease.toString(),
+      claimedTokens.toString(),
+      (totalTokens - claimedTokens).toString(),
+      formatPercentage(claimedTokens, totalTokens)
+    ]);
+
+    console.log(table.toString());
+  }
+
+  async function viewVestingSchedule() {
+    const grants = await vestingContract.getGrants(signer.address);
+    if (grants.length === 0) {
+      console.log("\n❌ No tokens have been granted to your address yet.");
+      return;
+    }
+
+    const block = await ethers.provider.getBlock("latest");
+    const now = BigInt(block!.timestamp);
+
+    for (let grantId = 0; grantId < grants.length; grantId++) {
+      const grant = grants[grantId];
+      const termsVersion = await vestingContract.getGrantTermsVersion(signer.address, grantId);
+      const schedule = await loadVestingSchedule(vestingContract, grant.equityClass, undefined, termsVersion);
+      const events = projectVestingTimeline(schedule, {
+        totalTokens: grant.totalTokens,
+        startTime: grant.startTime,
+        claimedTokens: grant.claimedTokens,
+        terminationTime: grant.terminationTime,
+        acceleratedTokens: await vestingContract.getGrantAcceleratedTokens(signer.address, grantId),
+      });
+
+      console.log(`\n📅 Grant ${grantId}: ${ethers.decodeBytes32String(grant.equityClass)}, ${grant.totalTokens} tokens`);
+      printVestingTimeline(events, grant.totalTokens, now);
+    }
+
+    const results = await checkConsistency(vestingContract, signer.address, now, block!.number);
+    if (results.every((result) => result.matches)) {
+      console.log("Projection matches the contract at the current block ✅");
+    } else {
+      console.log("⚠️ Projection differs from the contract for grant(s):",
+        results.filter((result) => !result.matches).map((result) => result.grantId).join(", "));
+    }
+  }
+
+  async function checkBalance() {
+    try {
+      const tokenBalance = await tokenContract.balanceOf(signer.address);
+      // already net of what was claimed
+      const claimable = await vestingContract.calculateVestedTokens(signer.address);
+  
+      console.log("\n🪙 Your ERC20 Token Balance:");
+      console.log('Tokens in Wallet 💰:', tokenBalance.toString());
+      console.log('Tokens Available to Claim 🎁:', claimable.toString());
+  
+      if (claimable > 0n) {
+        console.log("\n💡 You can claim", claimable.toString(), "tokens now!");
+      }
+    } catch (error) {
+      if (decodeContractError(error)?.name === "NoEquityGranted") {
+        console.log("\n❌ No tokens have been granted to your address yet.");
+      } else {
+        console.error("Error checking token balance:", describeError(error));
+      }
+    }
+  }
+  
+
+  async function viewCompanyTokens() {
+    const role = await checkRole(signer.address);
+    if (role !== "Admin") {
+      console.log("Only admin can view company tokens. 🔒");
+      return;
+    }
+  
+    const totalTokensForCompany = await vestingContract.getTotalTokensForCompany();
+    const totalTokensGranted = await vestingContract.getTotalTokensGranted();
+    const totalTokensLockedForEmployees = await vestingContract.getTotalTokensLockedForEmployees();
+    const totalTokensReleasedToEmployees = await vestingContract.getTotalTokensReleasedToEmployees();
+
+    // vesting moves with time for every grant, so the vested split is summed from the cap table
+    const capTable = await buildCapTable(vestingContract, deployment.deploymentBlock);
+    const totalTokensVested = capTable.rows.reduce((total, row) => total + row.vestedTokens, 0n);
+    const totalTokensUnvested = capTable.rows.reduce((total, row) => total + row.unvestedTokens, 0n);
+  
+    console.log("\nCompany Token Information:");
+    console.log('Total Tokens for Company 💼:', totalTokensForCompany.toString());
+    console.log('Total Tokens Granted 🎁:', totalTokensGranted.toString());
+    console.log('Total Tokens Vested ✅:', totalTokensVested.toString());
+    console.log('Total Tokens Unvested ⏳:', totalTokensUnvested.toString());
+    console.log('Total Tokens Locked for Employees 🔒:', totalTokensLockedForEmployees.toString());
+    console.log('Total Tokens Released to Employees 🔓:', totalTokensReleasedToEmployees.toString());
+
+    const [balance, obligations] = await vestingContract.getSolvency();
+    if (balance >= obligations) {
+      console.log(`Solvent ✅: ${balance - obligations} tokens available for new grants`);
+    } else {
+      console.log(`⚠️ Insolvent: the vesting contract is ${obligations - balance} tokens short of what it owes employees`);
+    }
+  }
+  
+  async function viewCapTable() {
+    console.log("Scanning vesting events... ⏳");
+    const capTable = await buildCapTable(vestingContract, deployment.deploymentBlock);
+    printCapTable(capTable);
+
+    const { exportFormat } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "exportFormat",
+        message: "Export the cap table?",
+        choices: ["No", "CSV", "JSON"],
+      },
+    ]);
+
+    if (exportFormat === "CSV") {
+      exportCapTableCsv(capTable, "cap-table.csv");
+      console.log("Cap table exported to cap-table.csv 📄");
+    } else if (exportFormat === "JSON") {
+      exportCapTableJson(capTable, "cap-table.json");
+      console.log("Cap table exported to cap-table.json 📄");
+    }
+  }
+
+  async function transferTokens() {
+    const balance = await tokenContract.balanceOf(signer.address);
+    if (balance === 0n) {
+      console.log("No tokens to transfer. ❌");
+      return;
+    }
+
+    const { recipientAddress } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "recipientAddress",
+        message: "Enter recipient address: 🙍‍♂️",
+        validate: (input: string) => ethers.isAddress(input) || "Please enter a valid address",
+      },
+    ]);
+
+    const restriction = await explainTransferRestriction(tokenContract, signer.address, recipientAddress);
+    if (restriction) {
+      console.log(`${restriction} ⛔`);
+      return;
+    }
+
+    const { amount } = await inquirer.prompt([
+      { type: "input", name: "amount", message: "Enter amount to transfer: 💸" },
+    ]);
+
+    await sendTransaction(tokenContract.connect(signer).transfer, [recipientAddress, amount]);
+    console.log("Tokens transferred successfully! 💸");
+  }
+
+  async function listRoleMembers() {
+    const table = new Table({
+      head: ["Role", "Admin Role", "Members"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+
+    const roleNamesById = new Map<string, RoleName>(
+      ROLE_NAMES.map((roleName) => [roleIds[roleName], roleName])
+    );
+
+    for (const roleName of ROLE_NAMES) {
+      const members = await accessControlContract.getRoleMembers(roleIds[roleName]);
+      const adminRole = await accessControlContract.getRoleAdmin(roleIds[roleName]);
+      table.push([
+        roleName,
+        roleNamesById.get(adminRole) || adminRole,
+        members.length > 0 ? members.join("\n") : "-"
+      ]);
+    }
+
+    console.log(table.toString());
+  }
+
+  async function manageRoles() {
+    while (true) {
+      const { action } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "action",
+          message: "Manage roles:",
+          choices: ["List Role Members 👥", "Grant Role ➕", "Revoke Role ➖", "Renounce Role 🏳️", "Back ↩️"],
+        },
+      ]);
 
-  console.log("Connecting to contracts...");
-  const vestingContract = await ethers.getContractAt("VestingContract", deploymentData.vestingContract);
-  const accessControlContract = await ethers.getContractAt("AccessControlContract", deploymentData.accessControlContract);
-  const tokenContract = await ethers.getContractAt("TokenContract", deploymentData.tokenContract);
-  
-  const [signer] = await ethers.getSigners();
-  console.log("Connected with address:", signer.address);
+      if (action === "Back ↩️") {
+        return;
+      }
 
-  async function checkRole(
-    address: string
-  ): Promise<string> {
-    try {
-      const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
-      const ADMIN_ROLE = ethers.id("ADMIN_ROLE");
-      const GRANTER_ROLE = ethers.id("GRANTER_ROLE");
+      if (action === "List Role Members 👥") {
+        await listRoleMembers();
+        continue;
+      }
+
+      const { roleName } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "roleName",
+          message: "Select role: 🛡️",
+          choices: ROLE_NAMES,
+        },
+      ]);
+      const role = roleIds[roleName as RoleName];
 
       try {
-        if (await accessControlContract.connect(signer).hasRole(DEFAULT_ADMIN_ROLE, address)) {
-          console.log("User has DEFAULT_ADMIN_ROLE");
-          return "Admin";
+        if (action === "Renounce Role 🏳️") {
+          if (!await accessControlContract.hasRole(role, signer.address)) {
+            console.log(`You don't have ${roleName}. ❌`);
+            continue;
+          }
+
+          const { confirmRenounce } = await inquirer.prompt([
+            {
+              type: "confirm",
+              name: "confirmRenounce",
+              message: `Renounce ${roleName} for ${signer.address}? This can't be undone without another admin.`,
+              default: false,
+            },
+          ]);
+          if (!confirmRenounce) {
+            continue;
+          }
+
+          await sendTransaction(accessControlContract.renounceRole, [role, signer.address]);
+          console.log(`Renounced ${roleName}. ✅`);
+          continue;
         }
-      } catch (error) {
-        console.log("Error checking DEFAULT_ADMIN_ROLE:", (error as Error).message);
-      }
 
-      try {
-        if (await accessControlContract.connect(signer).hasRole(ADMIN_ROLE, address)) {
-          console.log("User has ADMIN_ROLE");
-          return "Admin";
+        const { account } = await inquirer.prompt([
+          { type: "input", name: "account", message: "Enter account address: 🙍‍♂️" },
+        ]);
+
+        if (!ethers.isAddress(account)) {
+          console.log("Invalid address. ❌");
+          continue;
         }
-      } catch (error: unknown) {
-        console.log("Error checking ADMIN_ROLE:", (error as Error).message);
-      }
 
-      try {
-        if (await accessControlContract.connect(signer).hasRole(GRANTER_ROLE, address)) {
-          console.log("User has GRANTER_ROLE");
-          return "Granter";
+        const adminRole = await accessControlContract.getRoleAdmin(role);
+        if (!await accessControlContract.hasRole(adminRole, signer.address)) {
+          console.log(`Only holders of the ${roleName} admin role can change its members. 🔒`);
+          continue;
+        }
+
+        if (action === "Grant Role ➕") {
+          if (await accessControlContract.hasRole(role, account)) {
+            console.log(`${account} already has ${roleName}. ❌`);
+            continue;
+          }
+          await sendTransaction(accessControlContract.grantRole, [role, account]);
+          console.log(`Granted ${roleName} to ${account}. ✅`);
+        } else {
+          if (!await accessControlContract.hasRole(role, account)) {
+            console.log(`${account} doesn't have ${roleName}. ❌`);
+            continue;
+          }
+          await sendTransaction(accessControlContract.revokeRole, [role, account]);
+          console.log(`Revoked ${roleName} from ${account}. ✅`);
         }
       } catch (error) {
-        console.log("Error checking GRANTER_ROLE:", (error as Error).message);
+        console.error("Error managing roles:", describeError(error));
       }
-
-      return "Employee";
-    } catch (error) {
-      console.error("Error in checkRole:", error);
-      return "Unknown";
     }
   }
 
-  async function grantEquity() {
+  async function selectEquityClass(
+    message: string
+  ): Promise<string | undefined> {
     const equityClassNames = await vestingContract.getEquityClassNames();
-    const equityClassChoices = await Promise.all(
-      equityClassNames.map(async (name: string) => {
-        const [tokenCount, cliffPeriod, vestingPeriod, vestingPercentage] = await vestingContract.getEquityClassDetails(name);
-        const formattedPercentage = Number(vestingPercentage) / 100;
-        return {
-          name: `${name} (Tokens: ${tokenCount}, Cliff: ${cliffPeriod}, Vesting: ${vestingPeriod}, Percentage: ${formattedPercentage}%)`,
-          value: name,
-        };
-      })
-    );
+    if (equityClassNames.length === 0) {
+      console.log("No equity classes defined yet. ❌");
+      return undefined;
+    }
 
-    const { employeeAddress, equityClassName } = await inquirer.prompt([
-      { type: "input", name: "employeeAddress", message: "Enter employee address: 🙍‍♂️" },
+    const { equityClassName } = await inquirer.prompt([
       {
         type: "list",
         name: "equityClassName",
-        message: "Select equity class: 📊",
-        choices: equityClassChoices,
+        message,
+        choices: equityClassNames.map((name) => ({ name: ethers.decodeBytes32String(name), value: name })),
       },
     ]);
-
-    await vestingContract.grantEquity(employeeAddress, equityClassName);
-    console.log("Equity granted successfully! ✅");
+    return equityClassName;
   }
 
-  async function claimVestedTokens() {
-    try {
-      const totalVested = await vestingContract.calculateVestedTokens(signer.address);
-      const claimed = await vestingContract.getClaimedTokens(signer.address);
-      const claimable = totalVested - claimed;
-      
-      if (claimable === 0n) {
-        console.log("No tokens available to claim. ❌");
-        return;
+  async function printEquityClasses() {
+    const table = new Table({
+      head: ["Equity Class", "Schedule", "Version", "Tokens per Grant", "Pool Budget", "Allocated", "Remaining", "Status"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
       }
+    }) as Table.Table & { push: (row: string[]) => number };
 
-      await vestingContract.connect(signer).claimVestedTokens();
-      console.log(`Successfully claimed ${claimable.toString()} tokens! 💰`);
-    } catch (error: any) {
-      if (error.message.includes("CliffPeriodNotMet")) {
-        console.log("Cliff period not met yet. Please wait longer before claiming. ⏳");
-      } else if (error.message.includes("NoTokensToClaim")) {
-        console.log("No tokens available to claim. ❌");
-      } else {
-        console.error("Error claiming tokens:", error);
-      }
+    for (const name of await vestingContract.getEquityClassNames()) {
+      const [budget, allocated, retired, currentVersion] = await vestingContract.getEquityClassPool(name);
+      const [tokenCount] = await vestingContract.getEquityClassDetails(name);
+      const [scheduleType] = await vestingContract.getVestingSchedule(name);
+      const remaining = budget - allocated;
+
+      table.push([
+        ethers.decodeBytes32String(name),
+        ["Step", "Linear", "Custom"][Number(scheduleType)],
+        currentVersion.toString(),
+        tokenCount.toString(),
+        budget.toString(),
+        allocated.toString(),
+        remaining.toString(),
+        retired ? "Retired 🗄️" : remaining < tokenCount ? "Exhausted ⚠️" : "Active ✅"
+      ]);
     }
+
+    console.log(table.toString());
   }
 
-  async function viewEmployeeEquity(
-    address?: string
+  async function viewTermsHistory(
+    equityClassName: string
   ) {
-    const employeeAddress = address || signer.address;
-    
-    const equityClass = await vestingContract.getEmployeeEquityClass(employeeAddress);
-    const totalTokens = await vestingContract.getVestedTokens(employeeAddress);
-    const claimedTokens = await vestingContract.getClaimedTokens(employeeAddress);
-    const remainingTokens = totalTokens - claimedTokens;
-    const vestingPercentage = totalTokens > 0n
-        ? Number((claimedTokens * 100n) / totalTokens)
-        : 0;
-
-    const availableToRelease = await vestingContract.calculateVestedTokens(employeeAddress);
+    const [, , , currentVersion] = await vestingContract.getEquityClassPool(equityClassName);
 
     const table = new Table({
-      head: ["Address", "Equity Class", "Total Tokens", "Available to Release", "Released Tokens", "Remaining Tokens", "Vesting Done"],
+      head: ["Version", "Schedule", "Tokens per Grant", "Cliff (s)", "Period (s)", "Vesting"],
       style: {
         head: ['cyan'],
         border: ['grey']
       }
     }) as Table.Table & { push: (row: string[]) => number };
 
-    table.push([
-      employeeAddress,
-      equityClass,
-      totalTokens.toString(),
-      availableToRelease.toString(),
-      claimedTokens.toString(),
-      remainingTokens.toString(),
-      `${vestingPercentage.toFixed(2)}%`
-    ]);
+    for (let version = 0n; version <= currentVersion; version++) {
+      const [terms, milestones] = await vestingContract.getEquityClassTerms(equityClassName, version);
+      table.push([
+        `${version}${version === currentVersion ? " (current)" : ""}`,
+        ["Step", "Linear", "Custom"][Number(terms.scheduleType)],
+        terms.tokenCount.toString(),
+        terms.cliffPeriod.toString(),
+        terms.vestingPeriod.toString(),
+        [
+          `${Number(terms.vestingPercentage) / 100}% per period`,
+          "Continuous",
+          milestones.map((milestone) => `${milestone.offset}s: ${Number(milestone.cumulativePercentage) / 100}%`).join(", ")
+        ][Number(terms.scheduleType)]
+      ]);
+    }
 
     console.log(table.toString());
   }
 
-  async function checkBalance() {
-    try {
-      const tokenBalance = await tokenContract.balanceOf(signer.address);
-      const claimed = await vestingContract.getClaimedTokens(signer.address);
-      const availableToRelease = await vestingContract.calculateVestedTokens(signer.address);
-  
-      console.log("\n🪙 Your ERC20 Token Balance:");
-      console.log('Tokens in Wallet 💰:', tokenBalance.toString());
-      console.log('Tokens Available to Claim 🎁:', (availableToRelease - claimed).toString());
-  
-      if (availableToRelease > claimed) {
-        console.log("\n💡 You can claim", (availableToRelease - claimed).toString(), "tokens now!");
-      }
-    } catch (error) {
-      if ((error as Error).message.includes("NoEquityGranted")) {
-        console.log("\n❌ No tokens have been granted to your address yet.");
+  async function distributeVestedTokens() {
+    console.log("Finding employees with claimable tokens... 🔍");
+    const targets = await findClaimableEmployees(vestingContract, deployment.deploymentBlock);
+    if (targets.length === 0) {
+      console.log("No employee has tokens to claim. Nothing to distribute.");
+      return;
+    }
+
+    printClaimableEmployees(targets);
+
+    const total = targets.reduce((sum, target) => sum + target.claimableTokens, 0n);
+    const { confirmDistribution } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmDistribution",
+        message: `Send ${total} vested tokens to these ${targets.length} employee(s)?`,
+        default: false,
+      },
+    ]);
+
+    if (!confirmDistribution) {
+      console.log("Distribution cancelled.");
+      return;
+    }
+
+    const results = await distributeInBatches(vestingContract, targets);
+    printDistributionReport(results);
+  }
+
+  async function setStartTimeLimits() {
+    const [maxBackdate, maxForwardDate] = await vestingContract.getStartTimeLimits();
+    console.log(`Vesting start dates can be ${formatDays(maxBackdate)} back and ${formatDays(maxForwardDate)} ahead of the grant.`);
+
+    const validateDays = (input: string) => {
+      const value = Number(input);
+      return !isNaN(value) && value >= 0 || "Please enter a number of days (0 or more)";
+    };
+    const { backdateDays, forwardDays } = await inquirer.prompt([
+      { type: "input", name: "backdateDays", message: "How many days may a start date be backdated? ⏪", validate: validateDays },
+      { type: "input", name: "forwardDays", message: "How many days ahead may a start date be? ⏩", validate: validateDays },
+    ]);
+
+    await sendTransaction(vestingContract.setStartTimeLimits, [
+      Math.round(Number(backdateDays) * SECONDS_PER_DAY),
+      Math.round(Number(forwardDays) * SECONDS_PER_DAY)
+    ]);
+    console.log("Start date limits updated ✅");
+  }
+
+  async function proposeEquityClass(
+    equityClass: EquityClass,
+    alwaysPropose: boolean = false
+  ) {
+    let proposed = false;
+    for (const call of equityClassCalls(equityClass)) {
+      proposed = (await sendOrPropose(equityContracts(), call, alwaysPropose)).proposalId !== undefined;
+    }
+    if (!proposed) {
+      console.log(`Equity class ${equityClass.name} saved ✅`);
+    }
+  }
+
+  async function selectProposal(
+    message: string,
+    states: string[],
+    method?: string
+  ) {
+    const rows = (await loadProposals(approvalQueueContract!, vestingContract))
+      .filter((row) => states.includes(row.state) && (!method || row.action.startsWith(`${method}(`)));
+    if (rows.length === 0) {
+      console.log(`No ${states.join(" or ").toLowerCase()} ${method ? `${method} ` : ""}proposals. ❌`);
+      return undefined;
+    }
+
+    const { proposal } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "proposal",
+        message,
+        choices: rows.map((row) => ({ name: `#${row.id} ${row.action} (by ${row.proposer})`, value: row })),
+      },
+    ]);
+    return proposal as ProposalRow;
+  }
+
+  async function managePendingProposals() {
+    if (!approvalQueueContract) {
+      console.log("This deployment has no approval queue. Add one with \"Add Approval Queue 🗳️\" in scripts/deploy.ts. ❌");
+      return;
+    }
+
+    while (true) {
+      const [queueAddress, required] = await vestingContract.getApprovalQueue();
+      console.log(`\nApprovals are ${required ? "required 🔒" : "not required 🔓"} for grants and equity class changes`);
+
+      const rows = await loadProposals(approvalQueueContract, vestingContract);
+      if (rows.length === 0) {
+        console.log("No proposals yet.");
       } else {
-        console.error("Error checking token balance:", error);
+        printProposals(rows);
+      }
+
+      const { action } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "action",
+          message: "Pending proposals:",
+          choices: [
+            "Propose Grant 🎁",
+            "Propose Class Change 🏷️",
+            "Approve ✅",
+            "Reject ❌",
+            "Execute 🚀",
+            required ? "Stop Requiring Approvals 🔓" : "Require Approvals 🔒",
+            "Set Proposal Lifetime ⌛",
+            "Back ↩️"
+          ],
+        },
+      ]);
+
+      if (action === "Back ↩️") {
+        return;
+      }
+
+      try {
+        if (action === "Propose Grant 🎁") {
+          await grantEquity(true);
+        } else if (action === "Propose Class Change 🏷️") {
+          const existingNames = (await vestingContract.getEquityClassNames()).map((name) => ethers.decodeBytes32String(name));
+          await proposeEquityClass(await promptEquityClass(existingNames), true);
+        } else if (action === "Approve ✅") {
+          const proposal = await selectProposal("Select proposal to approve: ✅", ["Pending"]);
+          if (!proposal) {
+            continue;
+          }
+          if (proposal.proposer === signer.address) {
+            console.log("You proposed this yourself. A different approver must approve it. ❌");
+            continue;
+          }
+          await sendTransaction(approvalQueueContract.approve, [proposal.id]);
+          console.log(`Proposal ${proposal.id} approved ✅`);
+        } else if (action === "Reject ❌") {
+          const proposal = await selectProposal("Select proposal to reject: ❌", ["Pending", "Approved"]);
+          if (!proposal) {
+            continue;
+          }
+          await sendTransaction(approvalQueueContract.reject, [proposal.id]);
+          console.log(`Proposal ${proposal.id} rejected ❌`);
+        } else if (action === "Execute 🚀") {
+          const proposal = await selectProposal("Select proposal to execute: 🚀", ["Approved"]);
+          if (!proposal) {
+            continue;
+          }
+          await sendTransaction(approvalQueueContract.execute, [proposal.id]);
+          console.log(`Proposal ${proposal.id} executed: ${proposal.action} 🚀`);
+        } else if (action === "Require Approvals 🔒") {
+          await sendTransaction(vestingContract.setApprovalQueue, [await approvalQueueContract.getAddress(), true]);
+          console.log("Grants and equity class changes now need a second person's approval 🔒");
+        } else if (action === "Stop Requiring Approvals 🔓") {
+          // turning approvals off is itself a change that needs approval
+          await sendOrPropose(equityContracts(), { method: "setApprovalQueue", args: [queueAddress, false] });
+        } else if (action === "Set Proposal Lifetime ⌛") {
+          const lifetime = await approvalQueueContract.proposalLifetime();
+          const { days } = await inquirer.prompt([
+            {
+              type: "input",
+              name: "days",
+              message: `How many days should proposals stay open? (currently ${formatDays(lifetime)}) ⌛`,
+              validate: (input: string) => {
+                const value = Number(input);
+                return !isNaN(value) && value > 0 || "Please enter a positive number of days";
+              },
+            },
+          ]);
+          await sendTransaction(approvalQueueContract.setProposalLifetime, [Math.round(Number(days) * SECONDS_PER_DAY)]);
+          console.log("Proposal lifetime updated ✅");
+        }
+      } catch (error) {
+        console.error("Error managing proposals:", describeError(error));
       }
     }
   }
-  
 
-  async function viewCompanyTokens() {
-    const [admin] = await ethers.getSigners();
-    const role = await checkRole(admin.address);
-    if (role !== "Admin") {
-      console.log("Only admin can view company tokens. 🔒");
-      return;
+  async function manageEquityClasses() {
+    while (true) {
+      await printEquityClasses();
+
+      const { action } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "action",
+          message: "Manage equity classes:",
+          choices: ["Define or Update Class ➕", "Set Pool Budget 💰", "Retire Class 🗄️", "View Terms History 📜", "Set Start Date Limits 📆", "Back ↩️"],
+        },
+      ]);
+
+      if (action === "Back ↩️") {
+        return;
+      }
+
+      if (action === "Set Start Date Limits 📆") {
+        await setStartTimeLimits();
+        continue;
+      }
+
+      if (action === "Define or Update Class ➕") {
+        const existingNames = (await vestingContract.getEquityClassNames()).map((name) => ethers.decodeBytes32String(name));
+        const equityClass = await promptEquityClass(existingNames);
+
+        if (existingNames.includes(equityClass.name)) {
+          const [, , retired, currentVersion] = await vestingContract.getEquityClassPool(ethers.encodeBytes32String(equityClass.name));
+          if (retired) {
+            console.log(`${equityClass.name} is retired and can't get new terms. ❌`);
+            continue;
+          }
+
+          const { confirmUpdate } = await inquirer.prompt([
+            {
+              type: "confirm",
+              name: "confirmUpdate",
+              message: `${equityClass.name} exists at version ${currentVersion}. Create version ${currentVersion + 1n} for new grants? Existing grants keep their terms.`,
+              default: false,
+            },
+          ]);
+
+          if (!confirmUpdate) {
+            console.log("Update cancelled.");
+            continue;
+          }
+        }
+
+        await proposeEquityClass(equityClass);
+        continue;
+      }
+
+      const equityClassName = await selectEquityClass("Select equity class: 📊");
+      if (!equityClassName) {
+        continue;
+      }
+
+      if (action === "View Terms History 📜") {
+        await viewTermsHistory(equityClassName);
+      } else if (action === "Set Pool Budget 💰") {
+        const [budget, allocated] = await vestingContract.getEquityClassPool(equityClassName);
+        const { newBudget } = await inquirer.prompt([
+          {
+            type: "input",
+            name: "newBudget",
+            message: `Enter the new pool budget (currently ${budget}, ${allocated} allocated): 💰`,
+            validate: (input: string) => {
+              const value = parseInt(input);
+              return !isNaN(value) && BigInt(value) >= allocated || `The budget can't be below the ${allocated} allocated tokens`;
+            },
+          },
+        ]);
+
+        const { proposalId } = await sendOrPropose(equityContracts(), {
+          method: "setEquityClassBudget",
+          args: [equityClassName, parseInt(newBudget)],
+        });
+        if (proposalId === undefined) {
+          console.log("Pool budget updated ✅");
+        }
+      } else if (action === "Retire Class 🗄️") {
+        const { confirmRetire } = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "confirmRetire",
+            message: `Retire ${ethers.decodeBytes32String(equityClassName)}? New grants will be blocked, existing grants keep vesting.`,
+            default: false,
+          },
+        ]);
+
+        if (!confirmRetire) {
+          console.log("Retirement cancelled.");
+          continue;
+        }
+
+        const { proposalId } = await sendOrPropose(equityContracts(), { method: "retireEquityClass", args: [equityClassName] });
+        if (proposalId === undefined) {
+          console.log("Equity class retired 🗄️");
+        }
+      }
     }
-  
-    const totalTokensForCompany = await vestingContract.getTotalTokensForCompany();
-    const totalTokensLockedForEmployees = await vestingContract.getTotalTokensLockedForEmployees();
-    const totalTokensReleasedToEmployees = await vestingContract.getTotalTokensReleasedToEmployees();
-  
-    console.log("\nCompany Token Information:");
-    console.log('Total Tokens for Company 💼:', totalTokensForCompany.toString());
-    console.log('Total Tokens Locked for Employees 🔒:', totalTokensLockedForEmployees.toString());
-    console.log('Total Tokens Released to Employees 🔓:', totalTokensReleasedToEmployees.toString());
   }
-  
-  async function transferTokens() {
-    const balance = await tokenContract.balanceOf(signer.address);
-    if (balance === 0n) {
-      console.log("No tokens to transfer. ❌");
+
+  async function manageTransferRestrictions() {
+    while (true) {
+      const enabled = await tokenContract.transferRestrictionsEnabled();
+      console.log(`Transfer restrictions are ${enabled ? "enabled 🔒" : "disabled 🔓"}`);
+
+      const { action } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "action",
+          message: "Manage transfer restrictions:",
+          choices: [
+            "View Holder Status 🔍",
+            enabled ? "Disable Restrictions 🔓" : "Enable Restrictions 🔒",
+            "Allowlist Holders ✅",
+            "Remove From Allowlist ❌",
+            "Set Exemption 🏦",
+            "Set Lockup Period ⏳",
+            "Back ↩️"
+          ],
+        },
+      ]);
+
+      if (action === "Back ↩️") {
+        return;
+      }
+
+      if (action === "Enable Restrictions 🔒" || action === "Disable Restrictions 🔓") {
+        await sendTransaction(tokenContract.setTransferRestrictionsEnabled, [!enabled]);
+        console.log(`Transfer restrictions ${enabled ? "disabled" : "enabled"} ✅`);
+        continue;
+      }
+
+      if (action === "Allowlist Holders ✅" || action === "Remove From Allowlist ❌") {
+        const { addresses } = await inquirer.prompt([
+          { type: "input", name: "addresses", message: "Enter holder addresses (comma separated): 🙍‍♂️" },
+        ]);
+        const accounts = addresses.split(",").map((address: string) => address.trim()).filter(Boolean);
+        const invalid = accounts.filter((address: string) => !ethers.isAddress(address));
+        if (accounts.length === 0 || invalid.length > 0) {
+          console.log(`Invalid addresses: ${invalid.join(", ") || "none given"} ❌`);
+          continue;
+        }
+
+        await sendTransaction(tokenContract.setAllowlisted, [accounts, action === "Allowlist Holders ✅"]);
+        console.log(`Updated the allowlist for ${accounts.length} holder(s) ✅`);
+        continue;
+      }
+
+      const { account } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "account",
+          message: "Enter address: 🙍‍♂️",
+          validate: (input: string) => ethers.isAddress(input) || "Please enter a valid address",
+        },
+      ]);
+
+      if (action === "View Holder Status 🔍") {
+        const status = await getTransferStatus(tokenContract, account);
+        const table = new Table({
+          head: ["Address", "Allowlisted", "Exempt", "Lockup Period (days)", "Locked Until"],
+          style: {
+            head: ['cyan'],
+            border: ['grey']
+          }
+        }) as Table.Table & { push: (row: string[]) => number };
+
+        table.push([
+          account,
+          status.allowlisted ? "Yes" : "No",
+          status.exempt ? "Yes" : "No",
+          (Number(status.lockupPeriod) / 86400).toString(),
+          status.lockedUntil > 0n ? new Date(Number(status.lockedUntil) * 1000).toISOString() : "-"
+        ]);
+
+        console.log(table.toString());
+      } else if (action === "Set Exemption 🏦") {
+        const { exempt } = await inquirer.prompt([
+          { type: "confirm", name: "exempt", message: "Exempt this address from transfer restrictions? 🏦", default: true },
+        ]);
+        await sendTransaction(tokenContract.setTransferExempt, [account, exempt]);
+        console.log(`${account} is ${exempt ? "now" : "no longer"} exempt ✅`);
+      } else if (action === "Set Lockup Period ⏳") {
+        const { lockupDays } = await inquirer.prompt([
+          {
+            type: "input",
+            name: "lockupDays",
+            message: "Enter the post-claim lockup period in days (0 for none): ⏳",
+            validate: (input: string) => {
+              const value = Number(input);
+              return Number.isInteger(value) && value >= 0 || "Please enter a whole number of days";
+            },
+          },
+        ]);
+        await sendTransaction(tokenContract.setLockupPeriod, [account, Number(lockupDays) * 86400]);
+        console.log(`Lockup period set to ${lockupDays} day(s) ✅`);
+      }
+    }
+  }
+
+  async function managePause() {
+    if (!await accessControlContract.hasRole(roleIds.PAUSER_ROLE, signer.address)) {
+      console.log("Only accounts with PAUSER_ROLE can pause or unpause. ❌");
       return;
     }
 
-    const { recipientAddress, amount } = await inquirer.prompt([
-      { type: "input", name: "recipientAddress", message: "Enter recipient address: 🙍‍♂️" },
-      { type: "input", name: "amount", message: "Enter amount to transfer: 💸" },
+    const pausedScopes = await getPausedScopes(accessControlContract);
+    console.log(`Currently paused: ${pausedScopes.length > 0 ? pausedScopes.join(", ") : "nothing"}`);
+
+    const { action, scopes } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "Pause or unpause:",
+        choices: ["Pause ⏸️", "Unpause ▶️", "Back ↩️"],
+      },
+      {
+        type: "checkbox",
+        name: "scopes",
+        message: "Select the scopes:",
+        choices: PAUSE_SCOPES.map((scope) => ({ name: scope, value: scope, checked: true })),
+        when: (answers) => answers.action !== "Back ↩️",
+      },
     ]);
 
-    await tokenContract.connect(signer).transfer(recipientAddress, amount);
-    console.log("Tokens transferred successfully! 💸");
+    if (action === "Back ↩️") {
+      return;
+    }
+
+    if (!scopes || scopes.length === 0) {
+      console.log("No scope selected. ❌");
+      return;
+    }
+
+    const { confirmPause } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmPause",
+        message: `${action === "Pause ⏸️" ? "Pause" : "Unpause"} ${scopes.join(", ")}?`,
+        default: false,
+      },
+    ]);
+
+    if (!confirmPause) {
+      console.log("Cancelled.");
+      return;
+    }
+
+    await sendTransaction(
+      action === "Pause ⏸️" ? accessControlContract.pause : accessControlContract.unpause,
+      [encodePauseScopes(scopes)]
+    );
+    console.log(`${action === "Pause ⏸️" ? "Paused" : "Unpaused"}: ${scopes.join(", ")} ✅`);
   }
 
   async function transferOwnership() {
@@ -206,24 +1697,37 @@ async function main() {
       { type: "input", name: "newOwnerAddress", message: "Enter the address of the new owner: 🆕👤" },
     ]);
   
-    await vestingContract.transferOwnership(newOwnerAddress);
+    await sendTransaction(vestingContract.transferOwnership, [newOwnerAddress]);
     console.log("Ownership transfer initiated. Waiting for the new owner to accept... ⏳");
   }
   
   async function acceptOwnership() {
-    await vestingContract.confirmOwnership();
+    await sendTransaction(vestingContract.confirmOwnership, []);
     console.log("Ownership accepted. You are now the new owner! 🎉");
   }
 
   async function adminCLI() {
     while (true) {
-      const [account] = await ethers.getSigners();
-      const role = await checkRole(account.address);
-      const choices = ["View Company Tokens 💼", "View Employee Equity 📋", "Grant Equity 🎁", "Transfer Ownership 🔑", "Accept Ownership 🤝", "Exit 🚪"];
+      if (nextMenu) {
+        return;
+      }
+
+      const role = await checkRole(signer.address);
+      const roles = await detectRoles(signer.address);
+      const choices = [
+        ...ADMIN_ACTIONS
+          .filter((action) => action.roles.length === 0 || action.roles.some((roleName) => roles.includes(roleName)))
+          .map((action) => action.name),
+        "Employee Menu 👤",
+        "Switch Identity 🪪",
+        ...extraActions.map((action) => action.name),
+        "Exit 🚪"
+      ];
 
 
       console.log(`\nWelcome to the Admin Equity Management CLI! 🌟`);
       console.log(`You are logged in as: ${role} 👤`);
+      printPauseBanner(await getPausedScopes(accessControlContract));
 
       const { choice } = await inquirer.prompt([
         {
@@ -234,47 +1738,111 @@ async function main() {
         },
       ]);
 
-      switch (choice) {
-        case "View Company Tokens 💼":
-          await viewCompanyTokens();
-          break;
-        case "View Employee Equity 📋":
-          const { employeeAddress } = await inquirer.prompt([
-            { type: "input", name: "employeeAddress", message: "Enter employee address (leave empty for your own): 🙍‍♂️" },
-          ]);
-          await viewEmployeeEquity(employeeAddress || undefined);
-          break;
-        case "Grant Equity 🎁":
-          await grantEquity();
-          break;
-        case "Transfer Ownership 🔑":
-          await transferOwnership();
-          break;
-        case "Accept Ownership 🤝":
-          await acceptOwnership();
-          break;
-        case "Exit 🚪":
-          console.log("Goodbye! 👋");
-          return;
+      // a failed action is reported and the menu comes back, it doesn't end the session
+      try {
+        switch (choice) {
+          case "View Company Tokens 💼":
+            await viewCompanyTokens();
+            break;
+          case "View Employee Equity 📋":
+            const { employeeAddress } = await inquirer.prompt([
+              { type: "input", name: "employeeAddress", message: "Enter employee address (leave empty for your own): 🙍‍♂️" },
+            ]);
+            await viewEmployeeEquity(employeeAddress || undefined);
+            break;
+          case "View Cap Table 📊":
+            await viewCapTable();
+            break;
+          case "Manage Equity Classes 🏷️":
+            await manageEquityClasses();
+            break;
+          case "Grant Equity 🎁":
+            await grantEquity();
+            break;
+          case "Import Grants 📥":
+            await importGrants();
+            break;
+          case "Terminate Employee 🛑":
+            await terminateEmployee();
+            break;
+          case "Accelerate Vesting ⚡":
+            await accelerateVesting();
+            break;
+          case "Wallet Recovery 🔁":
+            await manageWalletRecovery();
+            break;
+          case "Distribute Vested Tokens 📤":
+            await distributeVestedTokens();
+            break;
+          case "Pending Proposals 🗳️":
+            await managePendingProposals();
+            break;
+          case "Relay Signed Claims 📨":
+            await relayClaims();
+            break;
+          case "Voting Power 🏛️":
+            await manageVoting();
+            break;
+          case "Manage Roles 🛡️":
+            await manageRoles();
+            break;
+          case "Transfer Restrictions 🔒":
+            await manageTransferRestrictions();
+            break;
+          case "Pause/Unpause ⏯️":
+            await managePause();
+            break;
+          case "Transfer Ownership 🔑":
+            await transferOwnership();
+            break;
+          case "Accept Ownership 🤝":
+            await acceptOwnership();
+            break;
+          case "Employee Menu 👤":
+            nextMenu = "Employee";
+            break;
+          case "Switch Identity 🪪":
+            await selectIdentity();
+            break;
+          case "Exit 🚪":
+            console.log("Goodbye! 👋");
+            return;
+          default:
+            await runExtraAction(choice);
+        }
+      } catch (error) {
+        console.log(`${describeError(error)} ❌`);
       }
     }
   }
 
   async function employeeCLI() {
     while (true) {
-      const [account] = await ethers.getSigners();
-      const role = await checkRole(account.address);
+      if (nextMenu) {
+        return;
+      }
+
+      const role = await checkRole(signer.address);
+      const roles = await detectRoles(signer.address);
       const choices = [
         "Check Balance 💰",
         "View My Equity 📋", 
+        "View My Vesting Schedule 📅",
         "Claim Vested Tokens 💰", 
+        "Sign Claim Request ✍️",
         "Transfer Tokens 💸", 
+        "Delegate Votes 🗳️",
+        "View Voting Power at Block 🏛️",
         "Accept Ownership 🔑", 
+        ...(roles.some((roleName) => MANAGEMENT_ROLES.includes(roleName)) ? ["Admin Menu 🔑"] : []),
+        "Switch Identity 🪪",
+        ...extraActions.map((action) => action.name),
         "Exit 🚪"
       ];
 
       console.log(`\nWelcome to the Employee Equity Management CLI! 🌟`);
       console.log(`You are logged in as: ${role} 👤`);
+      printPauseBanner(await getPausedScopes(accessControlContract));
 
       const { choice } = await inquirer.prompt([
         {
@@ -285,50 +1853,80 @@ async function main() {
         },
       ]);
 
-      switch (choice) {
-        case "Check Balance 💰":
-          await checkBalance();
-          break;
-        case "View My Equity 📋":
-          await viewEmployeeEquity();
-          break;
-        case "Claim Vested Tokens 💰":
-          await claimVestedTokens();
-          break;
-        case "Transfer Tokens 💸":
-          await transferTokens();
-          break;
-        case "Accept Ownership 🔑":
-          await acceptOwnership();
-          break;
-        case "Exit 🚪":
-          console.log("Goodbye! 👋");
-          return;
+      try {
+        switch (choice) {
+          case "Check Balance 💰":
+            await checkBalance();
+            break;
+          case "View My Equity 📋":
+            await viewEmployeeEquity();
+            break;
+          case "View My Vesting Schedule 📅":
+            await viewVestingSchedule();
+            break;
+          case "Claim Vested Tokens 💰":
+            await claimVestedTokens();
+            break;
+          case "Sign Claim Request ✍️":
+            await signClaimRequestFile();
+            break;
+          case "Transfer Tokens 💸":
+            await transferTokens();
+            break;
+          case "Delegate Votes 🗳️":
+            await delegateVotes();
+            break;
+          case "View Voting Power at Block 🏛️":
+            await viewVotingPower();
+            break;
+          case "Accept Ownership 🔑":
+            await acceptOwnership();
+            break;
+          case "Admin Menu 🔑":
+            nextMenu = "Admin";
+            break;
+          case "Switch Identity 🪪":
+            await selectIdentity();
+            break;
+          case "Exit 🚪":
+            console.log("Goodbye! 👋");
+            return;
+          default:
+            await runExtraAction(choice);
+        }
+      } catch (error) {
+        console.log(`${describeError(error)} ❌`);
       }
     }
   }
 
   async function main() {
-    const { role } = await inquirer.prompt([
-      {
-        type: "list",
-        name: "role",
-        message: "Select your role:",
-        choices: ["Admin 🔑", "Employee 👤"],
-      },
-    ]);
-
-    if (role === "Admin 🔑") {
-      await adminCLI();
+    // with no keystores the network account is the only identity, so there is nothing to choose
+    if (listKeystores(process.env.KEYSTORE_DIR || DEFAULT_KEYSTORE_DIR).length > 0 || !networkSigner) {
+      await selectIdentity(false);
     } else {
-      await employeeCLI();
+      cli.switchSigner(networkSigner);
+    }
+
+    while (nextMenu) {
+      const menu = nextMenu === "Detect"
+        ? (await detectRoles(signer.address)).some((roleName) => MANAGEMENT_ROLES.includes(roleName)) ? "Admin" : "Employee"
+        : nextMenu;
+      nextMenu = undefined;
+      if (menu === "Admin") {
+        await adminCLI();
+      } else {
+        await employeeCLI();
+      }
     }
   }
 
   await main();
 }
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
+if (require.main === module) {
+  startCLI().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
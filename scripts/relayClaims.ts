@@ -0,0 +1,38 @@
+import { ethers } from "hardhat";
+import {
+  DEFAULT_CLAIMS_DIR,
+  loadSignedClaims,
+  relaySignedClaims,
+  printRelayResults
+} from "./utils/claimSignatures";
+import { loadDeployment } from "./utils/registry";
+
+// Usage: [CLAIMS_DIR=claims] npx hardhat run scripts/relayClaims.ts --network <network>
+async function main() {
+  const claimsDir = process.env.CLAIMS_DIR || DEFAULT_CLAIMS_DIR;
+
+  console.log("Loading deployment data...");
+  const deployment = await loadDeployment();
+  const vestingContract = await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy);
+
+  const [relayer] = await ethers.getSigners();
+  console.log("Relaying with address:", relayer.address);
+
+  const claims = loadSignedClaims(claimsDir);
+  if (claims.length === 0) {
+    console.log(`No signed claims in ${claimsDir}. Nothing to relay.`);
+    return;
+  }
+
+  const results = await relaySignedClaims(vestingContract, claims);
+  printRelayResults(results);
+
+  if (results.some((result) => result.status === "failed")) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
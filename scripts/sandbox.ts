@@ -0,0 +1,152 @@
+import { ethers, network } from "hardhat";
+import inquirer from "inquirer";
+import { DEFAULT_EQUITY_CLASSES, deployContracts, setupApprovalQueue, setupContracts } from "./deploy";
+import { CLIAction, startCLI } from "./interact";
+import { NetworkDeployment, describeProxy, getChainId } from "./utils/registry";
+
+const DEFAULT_SANDBOX_EMPLOYEES = 6;
+const DEFAULT_SANDBOX_TOKENS = 1000000;
+const SECONDS_PER_DAY = 86400;
+
+interface SandboxEmployee {
+  address: string;
+  equityClass: string;
+}
+
+async function seedEmployees(
+  vestingContract: any,
+  tokenContract: any,
+  employeeCount: number
+): Promise<SandboxEmployee[]> {
+  const [, ...accounts] = await ethers.getSigners();
+  // the last account is kept for the sandbox approver
+  if (employeeCount < 1 || employeeCount > accounts.length - 1) {
+    throw new Error(`SANDBOX_EMPLOYEES must be between 1 and ${accounts.length - 1}`);
+  }
+
+  const employees: SandboxEmployee[] = [];
+  for (let i = 0; i < employeeCount; i++) {
+    const equityClass = DEFAULT_EQUITY_CLASSES[i % DEFAULT_EQUITY_CLASSES.length].name;
+    await vestingContract.grantEquity(accounts[i].address, ethers.encodeBytes32String(equityClass));
+    employees.push({ address: accounts[i].address, equityClass });
+    console.log(`Granted ${equityClass} equity to employee ${i + 1} (${accounts[i].address})`);
+  }
+
+  // seeded employees can trade among themselves under the transfer restrictions
+  await tokenContract.setAllowlisted(employees.map((employee) => employee.address), true);
+
+  return employees;
+}
+
+async function printChainTime() {
+  const latestBlock = await ethers.provider.getBlock("latest");
+  console.log(`Chain time is now ${new Date(latestBlock!.timestamp * 1000).toISOString()} 🕒`);
+}
+
+// a second person to approve proposals made by the admin
+async function getSandboxApprover() {
+  const signers = await ethers.getSigners();
+  return signers[signers.length - 1];
+}
+
+function sandboxActions(
+  employees: SandboxEmployee[]
+): CLIAction[] {
+  return [
+    {
+      name: "Advance Time ⏩",
+      run: async () => {
+        const { days } = await inquirer.prompt([
+          {
+            type: "input",
+            name: "days",
+            message: "Advance time by how many days? (decimals allowed, e.g. 0.01 ≈ 15 minutes) ⏩",
+            validate: (input: string) => {
+              const value = Number(input);
+              return !isNaN(value) && value > 0 || "Please enter a positive number of days";
+            },
+          },
+        ]);
+
+        await network.provider.send("evm_increaseTime", [Math.round(Number(days) * SECONDS_PER_DAY)]);
+        await network.provider.send("evm_mine", []);
+        await printChainTime();
+      },
+    },
+    {
+      name: "Switch Account 🔄",
+      run: async (cli) => {
+        const [admin, ...accounts] = await ethers.getSigners();
+        const approver = await getSandboxApprover();
+        const { account } = await inquirer.prompt([
+          {
+            type: "list",
+            name: "account",
+            message: "Switch to:",
+            choices: [
+              { name: `Admin (${admin.address})`, value: -1 },
+              { name: `Approver (${approver.address})`, value: -2 },
+              ...employees.map((employee, i) => ({
+                name: `Employee ${i + 1} - ${employee.equityClass} (${employee.address})`,
+                value: i,
+              })),
+            ],
+          },
+        ]);
+
+        if (account === -1) {
+          cli.switchSigner(admin);
+        } else if (account === -2) {
+          cli.switchSigner(approver);
+        } else {
+          cli.switchSigner(accounts[account]);
+        }
+      },
+    },
+  ];
+}
+
+// Usage: [SANDBOX_EMPLOYEES=6] [SANDBOX_TOKENS=1000000] npx hardhat run scripts/sandbox.ts
+async function main() {
+  if (network.name !== "hardhat") {
+    throw new Error("The sandbox runs on the in-process hardhat network only. Run it without --network.");
+  }
+
+  const employeeCount = parseInt(process.env.SANDBOX_EMPLOYEES || "") || DEFAULT_SANDBOX_EMPLOYEES;
+  const totalTokens = parseInt(process.env.SANDBOX_TOKENS || "") || DEFAULT_SANDBOX_TOKENS;
+
+  console.log("Starting sandbox on the in-process hardhat network 🧪");
+  const [deployer] = await ethers.getSigners();
+  const { tokenContract, vestingContract, accessControlContract, addresses, deploymentBlock } = await deployContracts();
+  await setupContracts(accessControlContract, tokenContract, vestingContract, addresses.vesting, totalTokens);
+  await setupApprovalQueue(accessControlContract, vestingContract, addresses.approvalQueue);
+  const employees = await seedEmployees(vestingContract, tokenContract, employeeCount);
+
+  await accessControlContract.grantRole(await accessControlContract.APPROVER_ROLE(), (await getSandboxApprover()).address);
+
+  // kept in memory only, the sandbox chain disappears when the process exits
+  const deployment: NetworkDeployment = {
+    chainId: await getChainId(),
+    network: network.name,
+    deployer: deployer.address,
+    deploymentTime: new Date().toISOString(),
+    deploymentBlock,
+    contracts: {
+      accessControlContract: await describeProxy(addresses.accessControl),
+      tokenContract: await describeProxy(addresses.token),
+      vestingContract: await describeProxy(addresses.vesting),
+      approvalQueueContract: await describeProxy(addresses.approvalQueue),
+    },
+    upgrades: [],
+  };
+
+  await printChainTime();
+  console.log("Use \"Advance Time ⏩\" to move through cliffs and \"Switch Account 🔄\" to act as a seeded employee or the approver.");
+
+  await startCLI({ deployment, extraActions: sandboxActions(employees) });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
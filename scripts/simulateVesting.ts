@@ -0,0 +1,99 @@
+import {
+  ScheduleType,
+  VestingSchedule,
+  projectVestingTimeline,
+  printVestingTimeline
+} from "./utils/vestingEngine";
+
+// Runs offline, no network or deployment needed:
+// npx ts-node scripts/simulateVesting.ts --type step --tokens 1000 --cliff 31536000 --period 2592000 --percentage 25 [--start 2025-01-01]
+// npx ts-node scripts/simulateVesting.ts --type linear --tokens 1000 --cliff 31536000 --period 126144000
+// npx ts-node scripts/simulateVesting.ts --type custom --tokens 1000 --milestones 31536000:10,63072000:40,94608000:100
+
+function parseArgs(
+  argv: string[]
+): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+function parseSchedule(
+  args: Record<string, string>
+): VestingSchedule {
+  const scheduleTypes: Record<string, ScheduleType> = {
+    step: ScheduleType.Step,
+    linear: ScheduleType.Linear,
+    custom: ScheduleType.Custom,
+  };
+  const scheduleType = scheduleTypes[args.type || "step"];
+  if (scheduleType === undefined) {
+    throw new Error("--type must be one of step, linear or custom");
+  }
+
+  if (scheduleType === ScheduleType.Custom) {
+    // percentages are given as percent and converted to basis points like the deploy script does
+    const milestones = (args.milestones || "").split(",").map((pair) => {
+      const [offset, percentage] = pair.split(":");
+      return {
+        offset: BigInt(offset.trim()),
+        cumulativePercentage: BigInt(Math.round(parseFloat(percentage) * 100)),
+      };
+    });
+    return {
+      scheduleType,
+      cliffPeriod: milestones[0].offset,
+      vestingPeriod: milestones[milestones.length - 1].offset,
+      vestingPercentage: 0n,
+      milestones,
+    };
+  }
+
+  const vestingPeriod = BigInt(args.period || "0");
+  if (vestingPeriod === 0n) {
+    throw new Error("--period must be greater than zero");
+  }
+
+  return {
+    scheduleType,
+    cliffPeriod: BigInt(args.cliff || "0"),
+    vestingPeriod,
+    vestingPercentage: BigInt(args.percentage || "0") * 100n,
+    milestones: [],
+  };
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const schedule = parseSchedule(args);
+
+  const totalTokens = BigInt(args.tokens || "0");
+  if (totalTokens === 0n) {
+    throw new Error("--tokens must be greater than zero");
+  }
+
+  const startTime = args.start
+    ? BigInt(Math.floor(Date.parse(args.start) / 1000))
+    : BigInt(Math.floor(Date.now() / 1000));
+
+  const events = projectVestingTimeline(
+    schedule,
+    { totalTokens, startTime, claimedTokens: 0n, terminationTime: 0n },
+    args.interval ? BigInt(args.interval) : undefined
+  );
+
+  console.log(`Projected vesting of ${totalTokens} tokens starting ${new Date(Number(startTime) * 1000).toISOString()} 📅`);
+  printVestingTimeline(events, totalTokens, BigInt(Math.floor(Date.now() / 1000)));
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,174 @@
+import { ethers } from "hardhat";
+import fs from "fs";
+import Table from "cli-table3";
+import { VestingContract } from "../../typechain-types";
+import { loadGrants, queryInChunks } from "./grants";
+
+export interface CapTableRow {
+  employee: string;
+  grantId: number;
+  equityClass: string;
+  // when the grant was issued, vesting runs from startTime, which can be backdated or set ahead
+  grantTime: number;
+  startTime: number;
+  grantedTokens: bigint;
+  vestedTokens: bigint;
+  claimedTokens: bigint;
+  unvestedTokens: bigint;
+  terminated: boolean;
+}
+
+export interface CapTable {
+  fromBlock: number;
+  blockNumber: number;
+  equityClasses: Map<string, bigint>;
+  rows: CapTableRow[];
+}
+
+export async function buildCapTable(
+  vestingContract: VestingContract,
+  fromBlock: number
+): Promise<CapTable> {
+  const blockNumber = await ethers.provider.getBlockNumber();
+
+  const [classEvents, grantIndex] = await Promise.all([
+    queryInChunks(fromBlock, blockNumber, (from, to) =>
+      vestingContract.queryFilter(vestingContract.filters.EquityClassDefined(), from, to)),
+    loadGrants(vestingContract, fromBlock, blockNumber),
+  ]);
+
+  // later definitions overwrite earlier ones, matching the contract
+  const equityClasses = new Map<string, bigint>();
+  for (const event of classEvents) {
+    equityClasses.set(ethers.decodeBytes32String(event.args.name), event.args.tokenCount);
+  }
+
+  // events only enumerate the grants, their amounts are read from the contract at the report block
+  const rows: CapTableRow[] = [];
+  for (const { employee, equityClassName, grantId, grantTime } of grantIndex.grants) {
+    const grant = await vestingContract.getGrant(employee, grantId, { blockTag: blockNumber });
+    const unclaimedTokens = await vestingContract.calculateGrantVestedTokens(employee, grantId, { blockTag: blockNumber });
+    const vestedTokens = grant.claimedTokens + unclaimedTokens;
+
+    rows.push({
+      employee,
+      grantId: Number(grantId),
+      equityClass: ethers.decodeBytes32String(equityClassName),
+      grantTime: Number(grantTime),
+      startTime: Number(grant.startTime),
+      grantedTokens: grant.totalTokens,
+      vestedTokens,
+      claimedTokens: grant.claimedTokens,
+      unvestedTokens: grant.totalTokens - vestedTokens,
+      terminated: grant.terminationTime !== 0n,
+    });
+  }
+
+  return { fromBlock, blockNumber, equityClasses, rows };
+}
+
+function sumRows(
+  rows: CapTableRow[]
+) {
+  return rows.reduce(
+    (totals, row) => ({
+      granted: totals.granted + row.grantedTokens,
+      vested: totals.vested + row.vestedTokens,
+      claimed: totals.claimed + row.claimedTokens,
+      unvested: totals.unvested + row.unvestedTokens,
+    }),
+    { granted: 0n, vested: 0n, claimed: 0n, unvested: 0n }
+  );
+}
+
+export function printCapTable(
+  capTable: CapTable
+) {
+  console.log(`\nCap table at block ${capTable.blockNumber} (events from block ${capTable.fromBlock}) 📊`);
+
+  for (const [equityClass, tokenCount] of capTable.equityClasses) {
+    const rows = capTable.rows.filter((row) => row.equityClass === equityClass);
+    const totals = sumRows(rows);
+
+    const table = new Table({
+      head: ["Employee", "Grant ID", "Granted", "Vested", "Claimed", "Unvested"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+
+    for (const row of rows) {
+      table.push([
+        `${row.employee}${row.terminated ? " (terminated)" : ""}`,
+        row.grantId.toString(),
+        row.grantedTokens.toString(),
+        row.vestedTokens.toString(),
+        row.claimedTokens.toString(),
+        row.unvestedTokens.toString()
+      ]);
+    }
+
+    table.push([
+      `Total (${rows.length} grants)`,
+      "",
+      totals.granted.toString(),
+      totals.vested.toString(),
+      totals.claimed.toString(),
+      totals.unvested.toString()
+    ]);
+
+    console.log(`\n${equityClass} (${tokenCount} tokens per grant)`);
+    console.log(table.toString());
+  }
+
+  const totals = sumRows(capTable.rows);
+  console.log(`\nAll classes: ${capTable.rows.length} grants, ${totals.granted} granted, ${totals.vested} vested, ${totals.claimed} claimed, ${totals.unvested} unvested`);
+}
+
+export function exportCapTableCsv(
+  capTable: CapTable,
+  filePath: string
+) {
+  const header = ["employee", "grantId", "equityClass", "grantTime", "startTime", "grantedTokens", "vestedTokens", "claimedTokens", "unvestedTokens", "terminated"];
+  const lines = capTable.rows.map((row) => [
+    row.employee,
+    row.grantId,
+    `"${row.equityClass.replace(/"/g, '""')}"`,
+    new Date(row.grantTime * 1000).toISOString(),
+    new Date(row.startTime * 1000).toISOString(),
+    row.grantedTokens,
+    row.vestedTokens,
+    row.claimedTokens,
+    row.unvestedTokens,
+    row.terminated
+  ].join(","));
+
+  fs.writeFileSync(filePath, [header.join(","), ...lines].join("\n") + "\n");
+}
+
+export function exportCapTableJson(
+  capTable: CapTable,
+  filePath: string
+) {
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify({
+      fromBlock: capTable.fromBlock,
+      blockNumber: capTable.blockNumber,
+      generatedAt: new Date().toISOString(),
+      equityClasses: Object.fromEntries(
+        [...capTable.equityClasses].map(([name, tokenCount]) => [name, tokenCount.toString()])
+      ),
+      rows: capTable.rows.map((row) => ({
+        ...row,
+        grantTime: new Date(row.grantTime * 1000).toISOString(),
+        startTime: new Date(row.startTime * 1000).toISOString(),
+        grantedTokens: row.grantedTokens.toString(),
+        vestedTokens: row.vestedTokens.toString(),
+        claimedTokens: row.claimedTokens.toString(),
+        unvestedTokens: row.unvestedTokens.toString(),
+      })),
+    }, null, 2)
+  );
+}
@@ -0,0 +1,190 @@
+import { ethers } from "hardhat";
+import fs from "fs";
+import path from "path";
+import Table from "cli-table3";
+import type { Signer, TransactionReceipt } from "ethers";
+import type { VestingContract } from "../../typechain-types";
+import { sendTransaction } from "./transactions";
+
+export const DEFAULT_CLAIMS_DIR = "claims";
+
+// must match CLAIM_REQUEST_TYPEHASH in VestingContract
+const CLAIM_REQUEST_TYPES = {
+  ClaimRequest: [
+    { name: "employee", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface SignedClaim {
+  chainId: number;
+  vestingContract: string;
+  employee: string;
+  nonce: string;
+  deadline: number;
+  signature: string;
+}
+
+export interface RelayResult {
+  file: string;
+  employee: string;
+  status: "claimed" | "used" | "expired" | "failed" | "skipped";
+  amount?: bigint;
+  txHash?: string;
+  error?: string;
+}
+
+async function getClaimDomain(
+  vestingContract: VestingContract
+) {
+  return {
+    name: "VestingContract",
+    version: "1",
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    verifyingContract: await vestingContract.getAddress(),
+  };
+}
+
+export async function signClaimRequest(
+  signer: Signer,
+  vestingContract: VestingContract,
+  deadline: number
+): Promise<SignedClaim> {
+  const employee = await signer.getAddress();
+  const nonce = await vestingContract.getClaimNonce(employee);
+  const domain = await getClaimDomain(vestingContract);
+
+  const signature = await signer.signTypedData(domain, CLAIM_REQUEST_TYPES, { employee, nonce, deadline });
+
+  return {
+    chainId: Number(domain.chainId),
+    vestingContract: domain.verifyingContract,
+    employee,
+    nonce: nonce.toString(),
+    deadline,
+    signature,
+  };
+}
+
+export function writeSignedClaim(
+  claim: SignedClaim,
+  claimsDir: string = DEFAULT_CLAIMS_DIR
+): string {
+  fs.mkdirSync(claimsDir, { recursive: true });
+  const claimPath = path.join(claimsDir, `claim-${claim.employee}-${claim.nonce}.json`);
+  fs.writeFileSync(claimPath, JSON.stringify(claim, null, 2));
+  return claimPath;
+}
+
+export function loadSignedClaims(
+  claimsDir: string = DEFAULT_CLAIMS_DIR
+): { file: string; claim: SignedClaim }[] {
+  if (!fs.existsSync(claimsDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(claimsDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => ({
+      file: path.join(claimsDir, file),
+      claim: JSON.parse(fs.readFileSync(path.join(claimsDir, file), "utf-8")) as SignedClaim,
+    }));
+}
+
+// one TokensClaimed event per grant the claim paid out
+export function getClaimedAmount(
+  vestingContract: VestingContract,
+  receipt: TransactionReceipt
+): bigint {
+  return receipt.logs
+    .map((log) => vestingContract.interface.parseLog(log))
+    .filter((parsed) => parsed?.name === "TokensClaimed")
+    .reduce((total, parsed) => total + parsed!.args.amount, 0n);
+}
+
+// submits every claim that is still pending, anything already used or expired is reported and left alone
+export async function relaySignedClaims(
+  vestingContract: VestingContract,
+  claims: { file: string; claim: SignedClaim }[]
+): Promise<RelayResult[]> {
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const vestingAddress = await vestingContract.getAddress();
+  const results: RelayResult[] = [];
+
+  for (const { file, claim } of claims) {
+    const result: RelayResult = { file, employee: claim.employee, status: "skipped" };
+    results.push(result);
+
+    if (claim.chainId !== chainId || claim.vestingContract.toLowerCase() !== vestingAddress.toLowerCase()) {
+      result.error = `signed for ${claim.vestingContract} on chain ${claim.chainId}`;
+      continue;
+    }
+
+    const currentNonce = await vestingContract.getClaimNonce(claim.employee);
+    if (BigInt(claim.nonce) < currentNonce) {
+      result.status = "used";
+      continue;
+    }
+    if (BigInt(claim.nonce) > currentNonce) {
+      result.error = `waiting for nonce ${currentNonce} to be used first`;
+      continue;
+    }
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    if (latestBlock!.timestamp > claim.deadline) {
+      result.status = "expired";
+      continue;
+    }
+
+    try {
+      const receipt = await sendTransaction(
+        vestingContract.claimVestedTokensWithSignature,
+        [claim.employee, claim.deadline, claim.signature]
+      );
+      result.txHash = receipt.hash;
+      result.status = "claimed";
+      result.amount = getClaimedAmount(vestingContract, receipt);
+      console.log(`Relayed claim for ${claim.employee} ✅`);
+    } catch (error) {
+      result.status = "failed";
+      result.error = (error as Error).message;
+      console.log(`Failed to relay claim for ${claim.employee} ❌`);
+    }
+  }
+
+  return results;
+}
+
+export function printRelayResults(
+  results: RelayResult[]
+) {
+  const markers = {
+    claimed: "✅ claimed",
+    used: "☑️ already used",
+    expired: "⌛ expired",
+    failed: "❌ failed",
+    skipped: "⏭️ skipped",
+  };
+
+  const table = new Table({
+    head: ["File", "Employee", "Claimed", "Status", "Details"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const result of results) {
+    table.push([
+      path.basename(result.file),
+      result.employee,
+      result.amount?.toString() ?? "",
+      markers[result.status],
+      result.error ?? result.txHash ?? ""
+    ]);
+  }
+
+  console.log(table.toString());
+}
@@ -0,0 +1,318 @@
+import { ethers } from "hardhat";
+import fs from "fs";
+import Table from "cli-table3";
+import type { BaseContract, Interface, Signer, TransactionReceipt } from "ethers";
+import type {
+  AccessControlContract,
+  ApprovalQueueContract,
+  TokenContract,
+  VestingContract
+} from "../../typechain-types";
+import type { TypedContractMethod } from "../../typechain-types/common";
+import { NetworkDeployment } from "./registry";
+import { DEFAULT_KEYSTORE_DIR, listKeystores, unlockKeystore } from "./keystore";
+import { describeProposalAction, getCreatedProposalId } from "./proposals";
+import { describeError, sendTransaction } from "./transactions";
+
+export interface EquityContracts {
+  vestingContract: VestingContract;
+  tokenContract: TokenContract;
+  accessControlContract: AccessControlContract;
+  approvalQueueContract?: ApprovalQueueContract;
+}
+
+// a vesting contract write call, the method name picks the argument types
+export type VestingCall = {
+  [M in keyof VestingContract & string]: VestingContract[M] extends TypedContractMethod<infer A, any, "nonpayable">
+    ? { method: M; args: A }
+    : never;
+}[keyof VestingContract & string];
+
+export interface DecodedEvent {
+  contract: string;
+  address: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface TxSummary {
+  txHash: string;
+  blockNumber: number;
+  gasUsed: bigint;
+  events: DecodedEvent[];
+}
+
+export interface CommandResult {
+  command: string;
+  ok: boolean;
+  transactions: TxSummary[];
+  result?: unknown;
+  error?: string;
+}
+
+// what a command hands back, the transactions it sent and anything it read or worked out
+export interface CommandOutcome {
+  transactions?: TxSummary[];
+  result?: unknown;
+}
+
+// values given on the command line win over the ones read from --params-file
+export function mergeParams<T extends Record<string, unknown>>(
+  taskArgs: T,
+  paramsFile?: string
+): T {
+  if (!paramsFile) {
+    return taskArgs;
+  }
+
+  const fileParams = JSON.parse(fs.readFileSync(paramsFile, "utf-8"));
+  if (typeof fileParams !== "object" || fileParams === null || Array.isArray(fileParams)) {
+    throw new Error(`${paramsFile} must hold a JSON object of parameter values`);
+  }
+
+  const merged: Record<string, unknown> = { ...taskArgs };
+  for (const [key, value] of Object.entries(fileParams)) {
+    // flags default to false, so a flag left off the command line can still be switched on from the file
+    if (merged[key] === undefined || merged[key] === false) {
+      merged[key] = value;
+    }
+  }
+  return merged as T;
+}
+
+export function requireAddress(
+  value: unknown,
+  name: string
+): string {
+  if (typeof value !== "string" || !ethers.isAddress(value)) {
+    throw new Error(`--${name} must be an address, got ${value ?? "nothing"}`);
+  }
+  return ethers.getAddress(value);
+}
+
+export function requirePositiveInt(
+  value: unknown,
+  name: string
+): number {
+  const parsed = typeof value === "number" ? value : parseInt(String(value));
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a whole number above zero, got ${value ?? "nothing"}`);
+  }
+  return parsed;
+}
+
+// keystore passwords come from the environment so they stay out of shell history and params files
+export async function resolveSigner(
+  keystoreLabel?: string,
+  keystoreDir: string = process.env.KEYSTORE_DIR || DEFAULT_KEYSTORE_DIR
+): Promise<Signer & { address: string }> {
+  if (!keystoreLabel) {
+    const [networkSigner] = await ethers.getSigners();
+    if (!networkSigner) {
+      throw new Error("No account is configured for this network, pass --keystore <label> to sign with a keystore identity");
+    }
+    return networkSigner;
+  }
+
+  const identity = listKeystores(keystoreDir).find((candidate) => candidate.label === keystoreLabel);
+  if (!identity) {
+    throw new Error(`No keystore labelled ${keystoreLabel} in ${keystoreDir}`);
+  }
+  const password = process.env.KEYSTORE_PASSWORD;
+  if (password === undefined) {
+    throw new Error(`Set KEYSTORE_PASSWORD to unlock ${keystoreLabel}`);
+  }
+  return unlockKeystore(identity, password);
+}
+
+export async function connectContracts(
+  deployment: NetworkDeployment,
+  signer: Signer
+): Promise<EquityContracts> {
+  return {
+    vestingContract: await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy, signer),
+    tokenContract: await ethers.getContractAt("TokenContract", deployment.contracts.tokenContract.proxy, signer),
+    accessControlContract: await ethers.getContractAt("AccessControlContract", deployment.contracts.accessControlContract.proxy, signer),
+    approvalQueueContract: deployment.contracts.approvalQueueContract
+      ? await ethers.getContractAt("ApprovalQueueContract", deployment.contracts.approvalQueueContract.proxy, signer)
+      : undefined,
+  };
+}
+
+// logs from any of the equity contracts are decoded, anything else is left out
+export async function summarizeReceipt(
+  receipt: TransactionReceipt,
+  contracts: EquityContracts
+): Promise<TxSummary> {
+  const decoders = new Map<string, { contract: string; iface: Interface }>();
+  const named: [string, { getAddress(): Promise<string>; interface: Interface } | undefined][] = [
+    ["VestingContract", contracts.vestingContract],
+    ["TokenContract", contracts.tokenContract],
+    ["AccessControlContract", contracts.accessControlContract],
+    ["ApprovalQueueContract", contracts.approvalQueueContract],
+  ];
+  for (const [contract, instance] of named) {
+    if (instance) {
+      decoders.set((await instance.getAddress()).toLowerCase(), { contract, iface: instance.interface });
+    }
+  }
+
+  const events: DecodedEvent[] = [];
+  for (const log of receipt.logs) {
+    const decoder = decoders.get(log.address.toLowerCase());
+    const parsed = decoder?.iface.parseLog(log);
+    if (decoder && parsed) {
+      events.push({
+        contract: decoder.contract,
+        address: log.address,
+        name: parsed.name,
+        args: Object.fromEntries(parsed.fragment.inputs.map((input, index) => [input.name || index.toString(), parsed.args[index]])),
+      });
+    }
+  }
+
+  return {
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    events,
+  };
+}
+
+// with approvals required, grants and class changes are proposed to the queue instead of sent
+export async function sendOrPropose(
+  contracts: EquityContracts,
+  call: VestingCall,
+  alwaysPropose: boolean = false
+): Promise<{ transaction: TxSummary; proposalId?: bigint }> {
+  const { vestingContract, approvalQueueContract } = contracts;
+  // VestingCall already ties the arguments to the method, the typed overloads can't take a union of names
+  const method = (vestingContract as BaseContract).getFunction(call.method);
+  const [, required] = await vestingContract.getApprovalQueue();
+  if (!required && !alwaysPropose) {
+    const receipt = await sendTransaction(method, call.args);
+    return { transaction: await summarizeReceipt(receipt, contracts) };
+  }
+
+  if (!approvalQueueContract) {
+    throw new Error("This deployment has no approval queue. Add one with scripts/deploy.ts first.");
+  }
+
+  const { data } = await method.populateTransaction(...call.args);
+  const receipt = await sendTransaction(approvalQueueContract.propose, [data]);
+  const proposalId = getCreatedProposalId(approvalQueueContract, receipt);
+  const transaction = await summarizeReceipt(receipt, contracts);
+  console.log(`Proposal ${proposalId} created: ${describeProposalAction(vestingContract, data)} 🗳️`);
+  console.log("A different approver must approve it under Pending Proposals before it can be executed.");
+  return { transaction, proposalId };
+}
+
+// bigints become decimal strings, JSON has no integer type wide enough for token amounts
+export function toJson(
+  value: unknown
+): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
+
+function formatCell(
+  value: unknown
+): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return typeof value === "object" ? toJson(value) : String(value);
+}
+
+function printValue(
+  value: unknown
+) {
+  if (Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "object" && item !== null)) {
+    const keys = Object.keys(value[0]);
+    const table = new Table({
+      head: keys,
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+    for (const item of value) {
+      table.push(keys.map((key) => formatCell(item[key])));
+    }
+    console.log(table.toString());
+  } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    const table = new Table({
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: Record<string, string>) => number };
+    for (const [key, item] of Object.entries(value)) {
+      table.push({ [key]: formatCell(item) });
+    }
+    console.log(table.toString());
+  } else {
+    console.log(formatCell(value) || "Nothing to show");
+  }
+}
+
+export function printCommandResult(
+  result: CommandResult
+) {
+  if (!result.ok) {
+    console.error(`${result.command} failed: ${result.error} ❌`);
+    return;
+  }
+
+  if (result.transactions.length > 0) {
+    const table = new Table({
+      head: ["Tx Hash", "Block", "Gas Used", "Events"],
+      style: {
+        head: ['cyan'],
+        border: ['grey']
+      }
+    }) as Table.Table & { push: (row: string[]) => number };
+    for (const transaction of result.transactions) {
+      table.push([
+        transaction.txHash,
+        transaction.blockNumber.toString(),
+        transaction.gasUsed.toString(),
+        transaction.events.map((event) => `${event.contract}.${event.name}`).join("\n")
+      ]);
+    }
+    console.log(table.toString());
+  }
+
+  if (result.result !== undefined) {
+    printValue(result.result);
+  }
+  console.log(`${result.command} done ✅`);
+}
+
+// in JSON mode stdout carries only the result, progress lines from shared helpers go to stderr
+export async function runCommand(
+  command: string,
+  json: boolean,
+  action: () => Promise<CommandOutcome>
+) {
+  const log = console.log;
+  if (json) {
+    console.log = (...args: unknown[]) => console.error(...args);
+  }
+
+  let result: CommandResult;
+  try {
+    const outcome = await action();
+    result = { command, ok: true, transactions: outcome.transactions ?? [], result: outcome.result };
+  } catch (error) {
+    result = { command, ok: false, transactions: [], error: describeError(error) };
+    process.exitCode = 1;
+  } finally {
+    console.log = log;
+  }
+
+  if (json) {
+    process.stdout.write(toJson(result) + "\n");
+  } else {
+    printCommandResult(result);
+  }
+}
@@ -0,0 +1,135 @@
+import { ethers } from "hardhat";
+import Table from "cli-table3";
+import { VestingContract } from "../../typechain-types";
+import { grantHolders, loadGrants } from "./grants";
+import { sendTransaction } from "./transactions";
+
+// stays below MAX_DISTRIBUTION_BATCH so employees with many grants don't push a batch over the gas limit
+export const DEFAULT_DISTRIBUTION_BATCH_SIZE = 50;
+
+export interface ClaimableEmployee {
+  employee: string;
+  claimableTokens: bigint;
+}
+
+export interface DistributionResult {
+  employee: string;
+  expectedTokens: bigint;
+  receivedTokens: bigint;
+  status: "distributed" | "skipped" | "failed";
+  txHash?: string;
+  error?: string;
+}
+
+export async function findClaimableEmployees(
+  vestingContract: VestingContract,
+  fromBlock: number
+): Promise<ClaimableEmployee[]> {
+  const grantIndex = await loadGrants(vestingContract, fromBlock);
+  const blockNumber = grantIndex.blockNumber;
+
+  const employees = grantHolders(grantIndex);
+  const claimable: ClaimableEmployee[] = [];
+  for (const employee of employees) {
+    const claimableTokens = await vestingContract.calculateVestedTokens(employee, { blockTag: blockNumber });
+    if (claimableTokens > 0n) {
+      claimable.push({ employee, claimableTokens });
+    }
+  }
+
+  return claimable;
+}
+
+export async function distributeInBatches(
+  vestingContract: VestingContract,
+  targets: ClaimableEmployee[],
+  batchSize: number = DEFAULT_DISTRIBUTION_BATCH_SIZE
+): Promise<DistributionResult[]> {
+  const results: DistributionResult[] = [];
+
+  for (let i = 0; i < targets.length; i += batchSize) {
+    const batch = targets.slice(i, i + batchSize);
+    const batchResults = new Map<string, DistributionResult>(batch.map((target) => [target.employee, {
+      employee: target.employee,
+      expectedTokens: target.claimableTokens,
+      receivedTokens: 0n,
+      status: "skipped",
+    }]));
+
+    try {
+      const receipt = await sendTransaction(vestingContract.distributeVestedTokens, [batch.map((target) => target.employee)]);
+
+      // what each employee received comes from the events, the amount may have grown since the lookup
+      for (const log of receipt.logs) {
+        const parsed = vestingContract.interface.parseLog(log);
+        if (parsed?.name !== "VestedTokensDistributed") {
+          continue;
+        }
+        const result = batchResults.get(parsed.args.employee)!;
+        result.receivedTokens = parsed.args.amount;
+        result.status = "distributed";
+      }
+      for (const result of batchResults.values()) {
+        result.txHash = receipt.hash;
+      }
+      console.log(`Distributed to batch ${i / batchSize + 1} (${i + batch.length}/${targets.length} employees) ✅`);
+    } catch (error) {
+      for (const result of batchResults.values()) {
+        result.status = "failed";
+        result.error = (error as Error).message;
+      }
+      console.log(`Batch ${i / batchSize + 1} failed: ${(error as Error).message} ❌`);
+    }
+
+    results.push(...batchResults.values());
+  }
+
+  return results;
+}
+
+export function printClaimableEmployees(
+  targets: ClaimableEmployee[]
+) {
+  const table = new Table({
+    head: ["Employee", "Claimable Tokens"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const target of targets) {
+    table.push([target.employee, target.claimableTokens.toString()]);
+  }
+
+  console.log(table.toString());
+}
+
+export function printDistributionReport(
+  results: DistributionResult[]
+) {
+  const markers = { distributed: "✅ distributed", skipped: "⏭️ nothing to claim", failed: "❌ failed" };
+
+  const table = new Table({
+    head: ["Employee", "Expected", "Received", "Status"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const result of results) {
+    table.push([
+      result.employee,
+      result.expectedTokens.toString(),
+      result.receivedTokens.toString(),
+      markers[result.status]
+    ]);
+  }
+
+  console.log(table.toString());
+
+  const received = results.reduce((total, result) => total + result.receivedTokens, 0n);
+  const distributed = results.filter((result) => result.status === "distributed").length;
+  console.log(`Distributed ${received} tokens to ${distributed} of ${results.length} employee(s)`);
+}
@@ -0,0 +1,133 @@
+import { ethers } from "hardhat";
+import type { TokenContract, VestingContract } from "../../typechain-types";
+
+// Plain, JSON-friendly views of the contracts, read at a single block so every figure agrees.
+
+const SCHEDULE_TYPES = ["step", "linear", "custom"] as const;
+
+export interface EquityClassView {
+  name: string;
+  scheduleType: typeof SCHEDULE_TYPES[number];
+  termsVersion: number;
+  tokenCount: bigint;
+  cliffPeriod: number;
+  vestingPeriod: number;
+  // basis points, as stored on-chain
+  vestingPercentage: number;
+  milestones: { offset: number; cumulativePercentage: number }[];
+  poolBudget: bigint;
+  poolAllocated: bigint;
+  retired: boolean;
+}
+
+export interface GrantView {
+  grantId: number;
+  equityClass: string;
+  totalTokens: bigint;
+  claimedTokens: bigint;
+  claimableTokens: bigint;
+  startTime: number;
+  terminationTime: number | null;
+}
+
+export interface EmployeeView {
+  address: string;
+  equityClasses: string[];
+  totalTokens: bigint;
+  claimedTokens: bigint;
+  claimableTokens: bigint;
+  nextUnlock: { amount: bigint; timestamp: number } | null;
+  grants: GrantView[];
+}
+
+export interface CompanyView {
+  tokenSupply: bigint;
+  vestingBalance: bigint;
+  grantedTokens: bigint;
+  lockedForEmployees: bigint;
+  releasedToEmployees: bigint;
+  solvent: boolean;
+}
+
+export async function getEquityClasses(
+  vestingContract: VestingContract,
+  blockTag: number
+): Promise<EquityClassView[]> {
+  const classes: EquityClassView[] = [];
+
+  for (const name of await vestingContract.getEquityClassNames({ blockTag })) {
+    const [tokenCount, cliffPeriod, vestingPeriod, vestingPercentage] = await vestingContract.getEquityClassDetails(name, { blockTag });
+    const [scheduleType, milestones] = await vestingContract.getVestingSchedule(name, { blockTag });
+    const [budget, allocated, retired, currentVersion] = await vestingContract.getEquityClassPool(name, { blockTag });
+
+    classes.push({
+      name: ethers.decodeBytes32String(name),
+      scheduleType: SCHEDULE_TYPES[Number(scheduleType)],
+      termsVersion: Number(currentVersion),
+      tokenCount,
+      cliffPeriod: Number(cliffPeriod),
+      vestingPeriod: Number(vestingPeriod),
+      vestingPercentage: Number(vestingPercentage),
+      milestones: milestones.map((milestone) => ({
+        offset: Number(milestone.offset),
+        cumulativePercentage: Number(milestone.cumulativePercentage),
+      })),
+      poolBudget: budget,
+      poolAllocated: allocated,
+      retired,
+    });
+  }
+
+  return classes;
+}
+
+export async function getEmployeeEquity(
+  vestingContract: VestingContract,
+  employee: string,
+  blockTag: number
+): Promise<EmployeeView> {
+  const grants = await vestingContract.getGrants(employee, { blockTag });
+  const grantViews: GrantView[] = [];
+
+  for (let grantId = 0; grantId < grants.length; grantId++) {
+    const grant = grants[grantId];
+    grantViews.push({
+      grantId,
+      equityClass: ethers.decodeBytes32String(grant.equityClass),
+      totalTokens: grant.totalTokens,
+      claimedTokens: grant.claimedTokens,
+      claimableTokens: await vestingContract.calculateGrantVestedTokens(employee, grantId, { blockTag }),
+      startTime: Number(grant.startTime),
+      terminationTime: grant.terminationTime === 0n ? null : Number(grant.terminationTime),
+    });
+  }
+
+  const [nextAmount, nextUnlock] = await vestingContract.getNextVestingAmount(employee, { blockTag });
+
+  return {
+    address: ethers.getAddress(employee),
+    equityClasses: [...new Set(grantViews.map((grant) => grant.equityClass))],
+    totalTokens: grantViews.reduce((total, grant) => total + grant.totalTokens, 0n),
+    claimedTokens: grantViews.reduce((total, grant) => total + grant.claimedTokens, 0n),
+    claimableTokens: grantViews.reduce((total, grant) => total + grant.claimableTokens, 0n),
+    nextUnlock: nextUnlock === 0n ? null : { amount: nextAmount, timestamp: Number(nextUnlock) },
+    grants: grantViews,
+  };
+}
+
+export async function getCompanyTotals(
+  vestingContract: VestingContract,
+  tokenContract: TokenContract,
+  blockTag: number
+): Promise<CompanyView> {
+  const [balance, obligations] = await vestingContract.getSolvency({ blockTag });
+
+  return {
+    tokenSupply: await tokenContract.totalSupply({ blockTag }),
+    vestingBalance: balance,
+    grantedTokens: await vestingContract.getTotalTokensGranted({ blockTag }),
+    lockedForEmployees: await vestingContract.getTotalTokensLockedForEmployees({ blockTag }),
+    releasedToEmployees: await vestingContract.getTotalTokensReleasedToEmployees({ blockTag }),
+    solvent: balance >= obligations,
+  };
+}
@@ -0,0 +1,137 @@
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import { VestingContract } from "../../typechain-types";
+import { sendTransaction } from "./transactions";
+
+const DEFAULT_LOG_CHUNK_SIZE = 5000;
+
+// EquityGranted of the single-grant contract from before grant IDs, the current ABI no longer has it
+const LEGACY_GRANT_EVENTS = new Interface([
+  "event EquityGranted(address indexed employee, bytes32 indexed equityClassName, uint40 grantTime)",
+]);
+
+// RPC providers cap the block range of eth_getLogs, so scan in fixed-size windows
+export async function queryInChunks<T>(
+  fromBlock: number,
+  toBlock: number,
+  query: (from: number, to: number) => Promise<T[]>
+): Promise<T[]> {
+  const chunkSize = parseInt(process.env.LOG_CHUNK_SIZE || "") || DEFAULT_LOG_CHUNK_SIZE;
+  const results: T[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    results.push(...await query(start, end));
+  }
+  return results;
+}
+
+export interface GrantRecord {
+  // the wallet holding the grant at the scanned block, after any wallet recovery
+  employee: string;
+  grantId: bigint;
+  equityClassName: string;
+  grantTime: bigint;
+}
+
+export interface GrantIndex {
+  blockNumber: number;
+  grants: GrantRecord[];
+  // the wallet an address's grants ended up at, the address itself if they never moved
+  holderOf: (wallet: string) => string;
+}
+
+// every grant issued since fromBlock, keyed to its current holder so event data from before a
+// wallet recovery (claims, accelerations) can be matched with holderOf
+export async function loadGrants(
+  vestingContract: VestingContract,
+  fromBlock: number,
+  blockNumber?: number
+): Promise<GrantIndex> {
+  const toBlock = blockNumber ?? await ethers.provider.getBlockNumber();
+
+  const [grantEvents, legacyEvents, migrationEvents] = await Promise.all([
+    queryInChunks(fromBlock, toBlock, (from, to) =>
+      vestingContract.queryFilter(vestingContract.filters.EquityGranted(), from, to)),
+    queryInChunks(fromBlock, toBlock, (from, to) =>
+      vestingContract.queryFilter(vestingContract.filters.LegacyGrantMigrated(), from, to)),
+    queryInChunks(fromBlock, toBlock, (from, to) =>
+      vestingContract.queryFilter(vestingContract.filters.GrantsMigrated(), from, to)),
+  ]);
+
+  const movedTo = new Map<string, string>();
+  for (const event of migrationEvents) {
+    movedTo.set(event.args.from, event.args.to);
+  }
+  // a recovered wallet can itself be recovered later, so follow the chain to its end
+  const holderOf = (wallet: string) => {
+    let holder = ethers.getAddress(wallet);
+    while (movedTo.has(holder)) {
+      holder = movedTo.get(holder)!;
+    }
+    return holder;
+  };
+
+  const issued = grantEvents.map((event) => ({
+    position: [event.blockNumber, event.index],
+    grant: {
+      employee: holderOf(event.args.employee),
+      grantId: event.args.grantId,
+      equityClassName: event.args.equityClassName,
+      grantTime: event.args.grantTime,
+    },
+  }));
+
+  // grants from before grant IDs only announce their ID when migrated, the rest is read at that block
+  for (const event of legacyEvents) {
+    const { employee, grantId } = event.args;
+    const legacyGrant = await vestingContract.getGrant(employee, grantId, { blockTag: event.blockNumber });
+    issued.push({
+      position: [event.blockNumber, event.index],
+      grant: {
+        employee: holderOf(employee),
+        grantId,
+        equityClassName: legacyGrant.equityClass,
+        grantTime: legacyGrant.startTime,
+      },
+    });
+  }
+
+  const grants = issued
+    .sort((a, b) => a.position[0] - b.position[0] || a.position[1] - b.position[1])
+    .map(({ grant }) => grant);
+
+  return { blockNumber: toBlock, grants, holderOf };
+}
+
+export function grantHolders(
+  index: GrantIndex
+): string[] {
+  return [...new Set(index.grants.map((grant) => grant.employee))];
+}
+
+// grants from before grant IDs sit in a slot the claim and view functions no longer read,
+// so every one still there is given a grant ID after the upgrade
+export async function migrateLegacyGrants(
+  vestingContract: VestingContract,
+  fromBlock: number
+): Promise<number> {
+  const blockNumber = await ethers.provider.getBlockNumber();
+  const vestingAddress = await vestingContract.getAddress();
+  const legacyTopic = LEGACY_GRANT_EVENTS.getEvent("EquityGranted")!.topicHash;
+
+  const [legacyLogs, migratedEvents] = await Promise.all([
+    queryInChunks(fromBlock, blockNumber, (from, to) =>
+      ethers.provider.getLogs({ address: vestingAddress, topics: [legacyTopic], fromBlock: from, toBlock: to })),
+    queryInChunks(fromBlock, blockNumber, (from, to) =>
+      vestingContract.queryFilter(vestingContract.filters.LegacyGrantMigrated(), from, to)),
+  ]);
+
+  const migrated = new Set(migratedEvents.map((event) => event.args.employee));
+  const pending = [...new Set(legacyLogs.map((log) => LEGACY_GRANT_EVENTS.parseLog(log)!.args.employee as string))]
+    .filter((employee) => !migrated.has(employee));
+
+  for (const employee of pending) {
+    await sendTransaction(vestingContract.migrateLegacyGrant, [employee]);
+  }
+  return pending.length;
+}
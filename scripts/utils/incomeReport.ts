@@ -0,0 +1,281 @@
+import { ethers } from "hardhat";
+import fs from "fs";
+import path from "path";
+import Table from "cli-table3";
+import { VestingContract } from "../../typechain-types";
+import { loadGrants, queryInChunks } from "./grants";
+import { AccelerationEvent, loadVestingSchedule, pastVestEvents } from "./vestingEngine";
+
+export const DEFAULT_REPORT_DIR = "reports";
+
+// prices are kept as integers with six decimals so income sums don't pick up float rounding
+const PRICE_DECIMALS = 6;
+const PRICE_SCALE = 10n ** BigInt(PRICE_DECIMALS);
+// a 409A valuation is generally relied on for twelve months
+const STALE_VALUATION_SECONDS = 365 * 24 * 60 * 60;
+
+export interface FmvPrice {
+  date: string;
+  timestamp: number;
+  price: bigint;
+}
+
+export interface VestIncomeRow {
+  employee: string;
+  grantId: number;
+  equityClass: string;
+  vestTime: number;
+  taxYear: number;
+  quantity: bigint;
+  fmv?: FmvPrice;
+  incomeValue?: bigint;
+}
+
+function parsePrice(
+  value: string
+): bigint {
+  const match = value.trim().match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match || (match[2] && match[2].length > PRICE_DECIMALS)) {
+    throw new Error(`Invalid price ${value}, expected a positive decimal with up to ${PRICE_DECIMALS} places`);
+  }
+  return BigInt(match[1]) * PRICE_SCALE + BigInt((match[2] || "").padEnd(PRICE_DECIMALS, "0"));
+}
+
+function formatPrice(
+  price: bigint,
+  decimals: number = PRICE_DECIMALS
+): string {
+  // rounds half up to the requested number of decimals
+  const divisor = 10n ** BigInt(PRICE_DECIMALS - decimals);
+  const rounded = (price + divisor / 2n) / divisor;
+  const scale = 10n ** BigInt(decimals);
+  const fraction = (rounded % scale).toString().padStart(decimals, "0");
+  return decimals > 0 ? `${rounded / scale}.${fraction}` : (rounded / scale).toString();
+}
+
+function toDateString(
+  timestamp: number
+): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+// CSV with date and price columns or a JSON array of { date, price }, dates as YYYY-MM-DD
+export function loadFmvPrices(
+  filePath: string
+): FmvPrice[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+
+  let entries: { date: string; price: string }[];
+  if (path.extname(filePath).toLowerCase() === ".json") {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      throw new Error("JSON price file must be an array of { date, price } objects");
+    }
+    entries = data.map((item: any) => ({ date: String(item.date ?? ""), price: String(item.price ?? item.fmv ?? "") }));
+  } else {
+    const lines = content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith("#"));
+    const rows = lines.map((line) => line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1")));
+
+    // the header row is optional, columns default to date then price
+    let dateColumn = 0;
+    let priceColumn = 1;
+    if (rows.length > 0 && isNaN(Date.parse(rows[0][0]))) {
+      const header = rows.shift()!.map((cell) => cell.toLowerCase());
+      dateColumn = header.findIndex((cell) => cell === "date" || cell === "valuationdate");
+      priceColumn = header.findIndex((cell) => cell === "price" || cell === "fmv");
+      if (dateColumn === -1 || priceColumn === -1) {
+        throw new Error("Price file header must contain 'date' and 'price' columns");
+      }
+    }
+    entries = rows.map((cells) => ({ date: cells[dateColumn] || "", price: cells[priceColumn] || "" }));
+  }
+
+  const prices = entries.map((entry, index) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.date) || isNaN(Date.parse(entry.date))) {
+      throw new Error(`Row ${index + 1}: invalid date ${entry.date || "(empty)"}, expected YYYY-MM-DD`);
+    }
+    const price = parsePrice(entry.price);
+    if (price === 0n) {
+      throw new Error(`Row ${index + 1}: price must be above zero`);
+    }
+    return { date: entry.date, timestamp: Date.parse(`${entry.date}T00:00:00Z`) / 1000, price };
+  });
+
+  prices.sort((a, b) => a.timestamp - b.timestamp);
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i].date === prices[i - 1].date) {
+      throw new Error(`Two valuations are dated ${prices[i].date}`);
+    }
+  }
+
+  return prices;
+}
+
+// the valuation in effect on the vest date is the latest one made on or before it
+export function fmvAt(
+  prices: FmvPrice[],
+  timestamp: number
+): FmvPrice | undefined {
+  const vestDate = toDateString(timestamp);
+  let fmv: FmvPrice | undefined;
+  for (const price of prices) {
+    if (price.date > vestDate) {
+      break;
+    }
+    fmv = price;
+  }
+  return fmv;
+}
+
+export async function buildVestIncomeRows(
+  vestingContract: VestingContract,
+  fromBlock: number,
+  prices: FmvPrice[],
+  employee?: string
+): Promise<VestIncomeRow[]> {
+  const blockNumber = await ethers.provider.getBlockNumber();
+  const now = BigInt((await ethers.provider.getBlock(blockNumber))!.timestamp);
+
+  // not filtered by employee on-chain, a recovered wallet's grants were issued to its old address
+  const [grantIndex, accelerationEvents] = await Promise.all([
+    loadGrants(vestingContract, fromBlock, blockNumber),
+    queryInChunks(fromBlock, blockNumber, (from, to) =>
+      vestingContract.queryFilter(vestingContract.filters.VestingAccelerated(), from, to)),
+  ]);
+  const holder = employee ? ethers.getAddress(employee) : undefined;
+
+  const blockTimes = new Map<number, bigint>();
+  const accelerationsByGrant = new Map<string, AccelerationEvent[]>();
+  for (const event of accelerationEvents) {
+    const key = `${grantIndex.holderOf(event.args.employee)}:${event.args.grantId}`;
+    if (holder && !key.startsWith(holder)) {
+      continue;
+    }
+    if (!blockTimes.has(event.blockNumber)) {
+      blockTimes.set(event.blockNumber, BigInt((await event.getBlock()).timestamp));
+    }
+    accelerationsByGrant.set(key, [
+      ...(accelerationsByGrant.get(key) || []),
+      { timestamp: blockTimes.get(event.blockNumber)!, amount: event.args.acceleratedTokens },
+    ]);
+  }
+
+  const rows: VestIncomeRow[] = [];
+  const grants = grantIndex.grants.filter((grant) => !holder || grant.employee === holder);
+  for (const { employee: grantee, equityClassName, grantId } of grants) {
+    const equityClass = ethers.decodeBytes32String(equityClassName);
+
+    const grant = await vestingContract.getGrant(grantee, grantId, { blockTag: blockNumber });
+    const termsVersion = await vestingContract.getGrantTermsVersion(grantee, grantId, { blockTag: blockNumber });
+    const schedule = await loadVestingSchedule(vestingContract, equityClassName, blockNumber, termsVersion);
+    // termination shrinks totalTokens, the schedule ran on the size the grant was issued with
+    const [terms] = await vestingContract.getEquityClassTerms(equityClassName, termsVersion, { blockTag: blockNumber });
+
+    const vestEvents = pastVestEvents(
+      schedule,
+      {
+        totalTokens: terms.tokenCount,
+        startTime: grant.startTime,
+        claimedTokens: grant.claimedTokens,
+        terminationTime: grant.terminationTime,
+      },
+      accelerationsByGrant.get(`${grantee}:${grantId}`) || [],
+      now
+    );
+
+    for (const vestEvent of vestEvents) {
+      const vestTime = Number(vestEvent.timestamp);
+      const fmv = fmvAt(prices, vestTime);
+      rows.push({
+        employee: grantee,
+        grantId: Number(grantId),
+        equityClass,
+        vestTime,
+        taxYear: new Date(vestTime * 1000).getUTCFullYear(),
+        quantity: vestEvent.amount,
+        fmv,
+        incomeValue: fmv ? vestEvent.amount * fmv.price : undefined,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.employee.localeCompare(b.employee) || a.vestTime - b.vestTime || a.grantId - b.grantId);
+}
+
+// one CSV per employee and tax year, named vest-income-<employee>-<year>.csv
+export function writeVestIncomeReports(
+  rows: VestIncomeRow[],
+  reportDir: string = DEFAULT_REPORT_DIR
+): string[] {
+  const groups = new Map<string, VestIncomeRow[]>();
+  for (const row of rows) {
+    const key = `${row.employee}-${row.taxYear}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  fs.mkdirSync(reportDir, { recursive: true });
+  const header = ["employee", "grantId", "equityClass", "vestDate", "quantity", "fmvDate", "fmvPerShare", "incomeValue"];
+  const files: string[] = [];
+  for (const [key, groupRows] of groups) {
+    const lines = groupRows.map((row) => [
+      row.employee,
+      row.grantId,
+      `"${row.equityClass.replace(/"/g, '""')}"`,
+      toDateString(row.vestTime),
+      row.quantity,
+      row.fmv?.date ?? "",
+      row.fmv ? formatPrice(row.fmv.price) : "",
+      row.incomeValue !== undefined ? formatPrice(row.incomeValue, 2) : ""
+    ].join(","));
+
+    const filePath = path.join(reportDir, `vest-income-${key}.csv`);
+    fs.writeFileSync(filePath, [header.join(","), ...lines].join("\n") + "\n");
+    files.push(filePath);
+  }
+
+  return files;
+}
+
+export function printVestIncomeSummary(
+  rows: VestIncomeRow[]
+) {
+  const table = new Table({
+    head: ["Employee", "Tax Year", "Vest Events", "Vested Quantity", "Income Value", "Missing FMV"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  const summaries = new Map<string, { employee: string; taxYear: number; events: number; quantity: bigint; income: bigint; missing: number }>();
+  for (const row of rows) {
+    const key = `${row.employee}-${row.taxYear}`;
+    const summary = summaries.get(key) ?? { employee: row.employee, taxYear: row.taxYear, events: 0, quantity: 0n, income: 0n, missing: 0 };
+    summary.events++;
+    summary.quantity += row.quantity;
+    summary.income += row.incomeValue ?? 0n;
+    summary.missing += row.fmv ? 0 : 1;
+    summaries.set(key, summary);
+  }
+
+  for (const summary of summaries.values()) {
+    table.push([
+      summary.employee,
+      summary.taxYear.toString(),
+      summary.events.toString(),
+      summary.quantity.toString(),
+      formatPrice(summary.income, 2),
+      summary.missing > 0 ? `⚠️ ${summary.missing}` : ""
+    ]);
+  }
+
+  console.log(table.toString());
+
+  const stale = rows.filter((row) => row.fmv && row.vestTime - row.fmv.timestamp > STALE_VALUATION_SECONDS);
+  if (stale.length > 0) {
+    console.log(`⚠️ ${stale.length} vest event(s) are priced with a valuation more than a year old`);
+  }
+}
@@ -0,0 +1,77 @@
+import { ethers } from "hardhat";
+import fs from "fs";
+import path from "path";
+import { Wallet } from "ethers";
+
+export const DEFAULT_KEYSTORE_DIR = "keystores";
+
+export interface KeystoreIdentity {
+  label: string;
+  address: string;
+  file: string;
+}
+
+// standard encrypted JSON keystores (the format geth and ethers write), one per file named <label>.json
+export function listKeystores(
+  keystoreDir: string = DEFAULT_KEYSTORE_DIR
+): KeystoreIdentity[] {
+  if (!fs.existsSync(keystoreDir)) {
+    return [];
+  }
+
+  const identities: KeystoreIdentity[] = [];
+  for (const file of fs.readdirSync(keystoreDir).filter((name) => name.endsWith(".json")).sort()) {
+    const filePath = path.join(keystoreDir, file);
+    try {
+      const { address } = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      identities.push({ label: path.basename(file, ".json"), address: ethers.getAddress(`0x${String(address).replace(/^0x/, "")}`), file: filePath });
+    } catch {
+      console.log(`Skipping ${filePath}, it is not a keystore file`);
+    }
+  }
+  return identities;
+}
+
+// the network account comes first, Back is left out where there is no menu to return to
+export function identityChoices(
+  identities: KeystoreIdentity[],
+  networkAddress: string | undefined,
+  canGoBack: boolean
+): { name: string; value: string }[] {
+  return [
+    ...(networkAddress ? [{ name: `Network account (${networkAddress})`, value: "network" }] : []),
+    ...identities.map((keystore) => ({ name: `${keystore.label} (${keystore.address})`, value: keystore.file })),
+    { name: "Add Identity 🔐", value: "add" },
+    ...(canGoBack ? [{ name: "Back ↩️", value: "back" }] : []),
+  ];
+}
+
+export async function unlockKeystore(
+  identity: KeystoreIdentity,
+  password: string
+): Promise<Wallet> {
+  const wallet = await Wallet.fromEncryptedJson(fs.readFileSync(identity.file, "utf-8"), password);
+  return wallet.connect(ethers.provider) as Wallet;
+}
+
+export async function createKeystore(
+  label: string,
+  privateKey: string,
+  password: string,
+  keystoreDir: string = DEFAULT_KEYSTORE_DIR
+): Promise<KeystoreIdentity> {
+  if (!/^[A-Za-z0-9_-]+$/.test(label)) {
+    throw new Error("Labels may only use letters, digits, '-' and '_'");
+  }
+  const filePath = path.join(keystoreDir, `${label}.json`);
+  if (fs.existsSync(filePath)) {
+    throw new Error(`An identity labelled ${label} already exists`);
+  }
+
+  const wallet = new Wallet(privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`);
+  fs.mkdirSync(keystoreDir, { recursive: true });
+  // written owner-only, the file is still the key to the account if the password is weak
+  fs.writeFileSync(filePath, await wallet.encrypt(password), { mode: 0o600 });
+
+  return { label, address: wallet.address, file: filePath };
+}
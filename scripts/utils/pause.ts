@@ -0,0 +1,42 @@
+import type { AccessControlContract } from "../../typechain-types";
+
+export type PauseScope = "claims" | "grants" | "transfers";
+
+export const PAUSE_SCOPES: PauseScope[] = ["claims", "grants", "transfers"];
+
+// bit values of the PAUSE_* constants in AccessControlContract
+export const PAUSE_SCOPE_BITS: Record<PauseScope, number> = {
+  claims: 1,
+  grants: 2,
+  transfers: 4,
+};
+
+export function encodePauseScopes(
+  scopes: PauseScope[]
+): number {
+  return scopes.reduce((bits, scope) => bits | PAUSE_SCOPE_BITS[scope], 0);
+}
+
+export function decodePauseScopes(
+  bits: number
+): PauseScope[] {
+  return PAUSE_SCOPES.filter((scope) => (bits & PAUSE_SCOPE_BITS[scope]) !== 0);
+}
+
+export async function getPausedScopes(
+  accessControlContract: AccessControlContract
+): Promise<PauseScope[]> {
+  return decodePauseScopes(Number(await accessControlContract.pausedScopes()));
+}
+
+export function printPauseBanner(
+  pausedScopes: PauseScope[]
+) {
+  if (pausedScopes.length === 0) {
+    return;
+  }
+
+  const message = `⛔ EMERGENCY PAUSE ACTIVE: ${pausedScopes.join(", ")} halted ⛔`;
+  const border = "=".repeat(message.length + 4);
+  console.log(`\n${border}\n  ${message}\n${border}`);
+}
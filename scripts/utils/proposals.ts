@@ -0,0 +1,118 @@
+import { ethers } from "hardhat";
+import Table from "cli-table3";
+import type { TransactionReceipt } from "ethers";
+import type { ApprovalQueueContract, VestingContract } from "../../typechain-types";
+
+// on-chain statuses, expiry is derived from the proposal lifetime
+export const PROPOSAL_STATUSES = ["Pending", "Approved", "Executed", "Rejected"] as const;
+
+export type ProposalState = typeof PROPOSAL_STATUSES[number] | "Expired";
+
+export interface ProposalRow {
+  id: number;
+  proposer: string;
+  approver?: string;
+  createdAt: number;
+  expiresAt: number;
+  state: ProposalState;
+  action: string;
+}
+
+// renders the queued vesting call with class names decoded, e.g. grantEquity(employee: 0x.., equityClassName: CXO)
+export function describeProposalAction(
+  vestingContract: VestingContract,
+  data: string
+): string {
+  const call = vestingContract.interface.parseTransaction({ data });
+  if (!call) {
+    return data.slice(0, 10);
+  }
+
+  const args = call.fragment.inputs.map((input, i) => {
+    const value = call.args[i];
+    if (input.type === "bytes32") {
+      return `${input.name}: ${ethers.decodeBytes32String(value)}`;
+    }
+    if (Array.isArray(value)) {
+      return `${input.name}: [${value.join(", ")}]`;
+    }
+    return `${input.name}: ${value}`;
+  });
+  return `${call.name}(${args.join(", ")})`;
+}
+
+// proposal IDs are assigned when propose is mined, so they are read back from the receipt
+export function getCreatedProposalId(
+  approvalQueueContract: ApprovalQueueContract,
+  receipt: TransactionReceipt
+): bigint {
+  for (const log of receipt.logs) {
+    const parsed = approvalQueueContract.interface.parseLog(log);
+    if (parsed?.name === "ProposalCreated") {
+      return parsed.args.proposalId;
+    }
+  }
+  throw new Error("Transaction did not create a proposal");
+}
+
+export async function loadProposals(
+  approvalQueueContract: ApprovalQueueContract,
+  vestingContract: VestingContract
+): Promise<ProposalRow[]> {
+  const count = await approvalQueueContract.getProposalCount();
+  const lifetime = Number(await approvalQueueContract.proposalLifetime());
+  const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+  const rows: ProposalRow[] = [];
+  for (let id = 0; id < Number(count); id++) {
+    const proposal = await approvalQueueContract.getProposal(id);
+    const createdAt = Number(proposal.createdAt);
+    const status = PROPOSAL_STATUSES[Number(proposal.status)];
+    const open = status === "Pending" || status === "Approved";
+
+    rows.push({
+      id,
+      proposer: proposal.proposer,
+      approver: proposal.approver === ethers.ZeroAddress ? undefined : proposal.approver,
+      createdAt,
+      expiresAt: createdAt + lifetime,
+      state: open && now > createdAt + lifetime ? "Expired" : status,
+      action: describeProposalAction(vestingContract, proposal.data),
+    });
+  }
+
+  return rows;
+}
+
+export function printProposals(
+  rows: ProposalRow[]
+) {
+  const markers: Record<ProposalState, string> = {
+    Pending: "⏳ pending",
+    Approved: "✅ approved",
+    Executed: "🚀 executed",
+    Rejected: "❌ rejected",
+    Expired: "⌛ expired",
+  };
+
+  const table = new Table({
+    head: ["ID", "Action", "Proposed By", "Approved By", "Expires", "Status"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const row of rows) {
+    table.push([
+      row.id.toString(),
+      row.action,
+      row.proposer,
+      row.approver ?? "",
+      new Date(row.expiresAt * 1000).toISOString().replace("T", " ").slice(0, 19),
+      markers[row.state]
+    ]);
+  }
+
+  console.log(table.toString());
+}
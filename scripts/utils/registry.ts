@@ -0,0 +1,212 @@
+import { ethers, upgrades } from "hardhat";
+import fs from "fs";
+
+export const REGISTRY_FILE = "deployments.json";
+// written by scripts/deploy.ts before the registry, one deployment with no chain ID or deployment block
+export const LEGACY_DEPLOYMENT_FILE = "deployment.json";
+
+export type ContractKey = "accessControlContract" | "tokenContract" | "vestingContract" | "approvalQueueContract";
+
+export interface ContractDeployment {
+  proxy: string;
+  implementation: string;
+  admin: string;
+}
+
+export interface UpgradeRecord {
+  contract: ContractKey;
+  oldImplementation: string;
+  newImplementation: string;
+  timestamp: string;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface NetworkDeployment {
+  chainId: number;
+  network: string;
+  deployer: string;
+  deploymentTime: string;
+  deploymentBlock: number;
+  // deployments recorded before the approval queue existed don't have it
+  contracts: Record<Exclude<ContractKey, "approvalQueueContract">, ContractDeployment>
+    & Partial<Record<"approvalQueueContract", ContractDeployment>>;
+  upgrades: UpgradeRecord[];
+}
+
+// keyed by chain ID so deployments to different networks don't overwrite each other
+export type DeploymentRegistry = Record<string, NetworkDeployment>;
+
+interface LegacyDeployment {
+  tokenContract: string;
+  vestingContract: string;
+  accessControlContract: string;
+  deploymentTime: string;
+  network: string;
+}
+
+export function loadRegistry(): DeploymentRegistry {
+  if (!fs.existsSync(REGISTRY_FILE)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(REGISTRY_FILE, "utf-8"));
+}
+
+export function saveRegistry(
+  registry: DeploymentRegistry
+) {
+  fs.writeFileSync(
+    REGISTRY_FILE,
+    JSON.stringify(registry, null, 2)
+  );
+}
+
+export async function getChainId(): Promise<number> {
+  return Number((await ethers.provider.getNetwork()).chainId);
+}
+
+export async function describeProxy(
+  proxy: string
+): Promise<ContractDeployment> {
+  return {
+    proxy,
+    implementation: await upgrades.erc1967.getImplementationAddress(proxy),
+    admin: await upgrades.erc1967.getAdminAddress(proxy),
+  };
+}
+
+export async function findDeployment(): Promise<NetworkDeployment | undefined> {
+  const chainId = await getChainId();
+  return loadRegistry()[chainId.toString()];
+}
+
+// the first block with code at the proxy, bisected since the old file never stored it
+async function findDeploymentBlock(
+  proxy: string
+): Promise<number> {
+  let low = 0;
+  let high = await ethers.provider.getBlockNumber();
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (await ethers.provider.getCode(proxy, middle) === "0x") {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+async function findDeployer(
+  proxy: string,
+  blockNumber: number
+): Promise<string> {
+  const block = await ethers.provider.getBlock(blockNumber, true);
+  for (const tx of block?.prefetchedTransactions ?? []) {
+    const receipt = await ethers.provider.getTransactionReceipt(tx.hash);
+    if (receipt?.contractAddress === proxy) {
+      return tx.from;
+    }
+  }
+  return ethers.ZeroAddress;
+}
+
+// one-time import of deployment.json, proxies come from the file and everything else from the chain
+async function importLegacyDeployment(
+  chainId: number
+): Promise<NetworkDeployment | undefined> {
+  if (!fs.existsSync(LEGACY_DEPLOYMENT_FILE)) {
+    return undefined;
+  }
+
+  const legacy: LegacyDeployment = JSON.parse(fs.readFileSync(LEGACY_DEPLOYMENT_FILE, "utf-8"));
+  const proxies = {
+    accessControlContract: ethers.getAddress(legacy.accessControlContract),
+    tokenContract: ethers.getAddress(legacy.tokenContract),
+    vestingContract: ethers.getAddress(legacy.vestingContract),
+  };
+  // the file doesn't say which chain it was written for, so it only counts where its contracts exist
+  for (const proxy of Object.values(proxies)) {
+    if (await ethers.provider.getCode(proxy) === "0x") {
+      return undefined;
+    }
+  }
+
+  console.log(`Importing ${LEGACY_DEPLOYMENT_FILE} into ${REGISTRY_FILE} for chain ${chainId}...`);
+  // AccessControlContract was always deployed first
+  let deploymentBlock: number;
+  if (process.env.DEPLOYMENT_BLOCK) {
+    deploymentBlock = parseInt(process.env.DEPLOYMENT_BLOCK);
+  } else {
+    try {
+      deploymentBlock = await findDeploymentBlock(proxies.accessControlContract);
+    } catch (error) {
+      throw new Error(`Could not look up the deployment block (${(error as Error).message}). Set DEPLOYMENT_BLOCK to the block AccessControlContract was deployed in.`);
+    }
+  }
+
+  const deployment: NetworkDeployment = {
+    chainId,
+    network: legacy.network,
+    deployer: await findDeployer(proxies.accessControlContract, deploymentBlock),
+    deploymentTime: legacy.deploymentTime,
+    deploymentBlock,
+    contracts: {
+      accessControlContract: await describeProxy(proxies.accessControlContract),
+      tokenContract: await describeProxy(proxies.tokenContract),
+      vestingContract: await describeProxy(proxies.vestingContract),
+    },
+    upgrades: [],
+  };
+  recordDeployment(deployment);
+  console.log(`Recorded chain ${chainId} deployed in block ${deploymentBlock} ✅`);
+  return deployment;
+}
+
+export async function loadDeployment(
+  chainId?: number
+): Promise<NetworkDeployment> {
+  const connectedChainId = await getChainId();
+  chainId = chainId ?? connectedChainId;
+  const deployment = loadRegistry()[chainId.toString()] ?? await importLegacyDeployment(chainId);
+
+  if (!deployment) {
+    throw new Error(`No deployment recorded for chain ${chainId} in ${REGISTRY_FILE}. Please deploy the contracts first.`);
+  }
+
+  if (deployment.chainId !== chainId) {
+    throw new Error(`Registry entry for chain ${chainId} was recorded on chain ${deployment.chainId}. Refusing to continue.`);
+  }
+
+  // a fresh local node can reuse a chain ID without the contracts on it
+  for (const [key, contract] of Object.entries(deployment.contracts)) {
+    if (contract && await ethers.provider.getCode(contract.proxy) === "0x") {
+      throw new Error(`No ${key} code at ${contract.proxy} on chain ${connectedChainId}. The registry doesn't match this network.`);
+    }
+  }
+
+  return deployment;
+}
+
+export function recordDeployment(
+  deployment: NetworkDeployment
+) {
+  const registry = loadRegistry();
+  registry[deployment.chainId.toString()] = deployment;
+  saveRegistry(registry);
+}
+
+export function recordUpgrade(
+  chainId: number,
+  upgrade: UpgradeRecord
+) {
+  const registry = loadRegistry();
+  const deployment = registry[chainId.toString()];
+  if (!deployment) {
+    throw new Error(`No deployment recorded for chain ${chainId}`);
+  }
+
+  deployment.contracts[upgrade.contract]!.implementation = upgrade.newImplementation;
+  deployment.upgrades.push(upgrade);
+  saveRegistry(registry);
+}
@@ -0,0 +1,21 @@
+import type { AccessControlContract } from "../../typechain-types";
+
+export const ROLE_NAMES = ["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE", "GRANTER_ROLE", "MINTER_ROLE", "PAUSER_ROLE", "APPROVER_ROLE"] as const;
+
+export type RoleName = typeof ROLE_NAMES[number];
+
+export type RoleIds = Record<RoleName, string>;
+
+// read role IDs from the contract's own constants instead of re-deriving them off-chain
+export async function getRoleIds(
+  accessControlContract: AccessControlContract
+): Promise<RoleIds> {
+  return {
+    DEFAULT_ADMIN_ROLE: await accessControlContract.DEFAULT_ADMIN_ROLE(),
+    ADMIN_ROLE: await accessControlContract.ADMIN_ROLE(),
+    GRANTER_ROLE: await accessControlContract.GRANTER_ROLE(),
+    MINTER_ROLE: await accessControlContract.MINTER_ROLE(),
+    PAUSER_ROLE: await accessControlContract.PAUSER_ROLE(),
+    APPROVER_ROLE: await accessControlContract.APPROVER_ROLE(),
+  };
+}
@@ -0,0 +1,263 @@
+import { ethers } from "hardhat";
+import fs from "fs";
+import path from "path";
+import Table from "cli-table3";
+import { VestingContract } from "../../typechain-types";
+import { EquityContracts, sendOrPropose } from "./commands";
+
+export interface RosterEntry {
+  row: number;
+  address: string;
+  equityClass: string;
+}
+
+export interface ValidatedRosterEntry extends RosterEntry {
+  employee: string;
+  equityClassId: string;
+  errors: string[];
+  // shown in the preview, the row is still granted
+  warnings: string[];
+}
+
+export interface GrantResult {
+  row: number;
+  address: string;
+  equityClass: string;
+  status: "granted" | "proposed" | "failed" | "skipped";
+  txHash?: string;
+  // set when approvals are required and the grant waits in the approval queue
+  proposalId?: string;
+  error?: string;
+}
+
+function parseCsvRoster(
+  content: string
+): RosterEntry[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const splitLine = (line: string) =>
+    line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+
+  // the header row is optional, columns default to address then equity class
+  let addressColumn = 0;
+  let classColumn = 1;
+  let firstDataLine = 0;
+  const header = splitLine(lines[0]).map((cell) => cell.toLowerCase());
+  if (!ethers.isAddress(header[0])) {
+    addressColumn = header.findIndex((cell) => cell === "address" || cell === "employee");
+    classColumn = header.findIndex((cell) => cell === "equityclass" || cell === "equity class" || cell === "class");
+    if (addressColumn === -1 || classColumn === -1) {
+      throw new Error("Roster header must contain 'address' and 'equityClass' columns");
+    }
+    firstDataLine = 1;
+  }
+
+  return lines.slice(firstDataLine).map((line, index) => {
+    const cells = splitLine(line);
+    return {
+      row: index + 1,
+      address: cells[addressColumn] || "",
+      equityClass: cells[classColumn] || "",
+    };
+  });
+}
+
+function parseJsonRoster(
+  content: string
+): RosterEntry[] {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error("JSON roster must be an array of { address, equityClass } objects");
+  }
+
+  return data.map((item: any, index: number) => ({
+    row: index + 1,
+    address: String(item.address ?? item.employee ?? "").trim(),
+    equityClass: String(item.equityClass ?? item.class ?? "").trim(),
+  }));
+}
+
+export function parseRoster(
+  filePath: string
+): RosterEntry[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Roster file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  return path.extname(filePath).toLowerCase() === ".json"
+    ? parseJsonRoster(content)
+    : parseCsvRoster(content);
+}
+
+export async function validateRoster(
+  vestingContract: VestingContract,
+  entries: RosterEntry[]
+): Promise<ValidatedRosterEntry[]> {
+  const equityClassNames = await vestingContract.getEquityClassNames();
+  const equityClassIds = new Map<string, string>(
+    equityClassNames.map((name) => [ethers.decodeBytes32String(name), name])
+  );
+  const seenAddresses = new Set<string>();
+  // remaining pool budget per class, drawn down by the valid rows above
+  const remainingBudgets = new Map<string, bigint>();
+  const [balance, obligations] = await vestingContract.getSolvency();
+  let unallocatedBalance = balance > obligations ? balance - obligations : 0n;
+
+  const validated: ValidatedRosterEntry[] = [];
+  for (const entry of entries) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let employee = "";
+    let equityClassId = "";
+
+    try {
+      // getAddress rejects mixed-case addresses with a bad checksum
+      employee = ethers.getAddress(entry.address);
+    } catch {
+      errors.push("Invalid or badly checksummed address");
+    }
+
+    if (employee === ethers.ZeroAddress) {
+      errors.push("Zero address");
+    } else if (employee && seenAddresses.has(employee)) {
+      errors.push("Duplicate address in roster");
+    } else if (employee) {
+      seenAddresses.add(employee);
+      // employees can hold several grants, but a second one is worth a look before sending
+      const grantCount = await vestingContract.getGrantCount(employee);
+      if (grantCount > 0n) {
+        warnings.push(`Already has ${grantCount} grant(s)`);
+      }
+    }
+
+    const classId = equityClassIds.get(entry.equityClass);
+    if (classId === undefined) {
+      errors.push(`Unknown equity class '${entry.equityClass}'`);
+    } else {
+      equityClassId = classId;
+      const [budget, allocated, retired] = await vestingContract.getEquityClassPool(classId);
+      const [tokenCount] = await vestingContract.getEquityClassDetails(classId);
+      const remainingBudget = remainingBudgets.get(classId) ?? budget - allocated;
+
+      if (retired) {
+        errors.push(`Equity class '${entry.equityClass}' is retired`);
+      } else if (remainingBudget < tokenCount) {
+        errors.push(`Pool budget of '${entry.equityClass}' exhausted (${remainingBudget} of ${tokenCount} tokens left)`);
+      } else if (unallocatedBalance < tokenCount) {
+        errors.push(`Vesting contract can't cover the grant (${unallocatedBalance} of ${tokenCount} tokens unallocated)`);
+      } else if (errors.length === 0) {
+        remainingBudgets.set(classId, remainingBudget - tokenCount);
+        unallocatedBalance -= tokenCount;
+      }
+    }
+
+    validated.push({ ...entry, employee, equityClassId, errors, warnings });
+  }
+
+  return validated;
+}
+
+export function printRosterPreview(
+  entries: ValidatedRosterEntry[]
+) {
+  const table = new Table({
+    head: ["Row", "Address", "Equity Class", "Status"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const entry of entries) {
+    table.push([
+      entry.row.toString(),
+      entry.employee || entry.address,
+      entry.equityClass,
+      entry.errors.length > 0
+        ? `❌ ${entry.errors.join("; ")}`
+        : entry.warnings.length > 0 ? `⚠️ Ready, ${entry.warnings.join("; ")}` : "✅ Ready"
+    ]);
+  }
+
+  console.log(table.toString());
+
+  const invalidCount = entries.filter((entry) => entry.errors.length > 0).length;
+  console.log(`${entries.length - invalidCount} ready, ${invalidCount} invalid`);
+}
+
+// grants go through the approval queue like single grants do when approvals are required
+export async function submitGrants(
+  contracts: EquityContracts,
+  entries: ValidatedRosterEntry[]
+): Promise<GrantResult[]> {
+  const results: GrantResult[] = [];
+
+  for (const entry of entries) {
+    const result: GrantResult = {
+      row: entry.row,
+      address: entry.employee || entry.address,
+      equityClass: entry.equityClass,
+      status: "skipped",
+    };
+
+    if (entry.errors.length > 0) {
+      result.error = entry.errors.join("; ");
+      results.push(result);
+      continue;
+    }
+
+    try {
+      const { transaction, proposalId } = await sendOrPropose(contracts, {
+        method: "grantEquity",
+        args: [entry.employee, entry.equityClassId],
+      });
+      result.txHash = transaction.txHash;
+      if (proposalId !== undefined) {
+        result.status = "proposed";
+        result.proposalId = proposalId.toString();
+      } else {
+        result.status = "granted";
+        console.log(`Granted ${entry.equityClass} to ${entry.employee} ✅`);
+      }
+    } catch (error) {
+      result.status = "failed";
+      result.error = (error as Error).message;
+      console.log(`Failed to grant ${entry.equityClass} to ${entry.employee} ❌`);
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
+
+export function writeGrantReport(
+  rosterPath: string,
+  results: GrantResult[]
+): string {
+  const parsed = path.parse(rosterPath);
+  const reportPath = path.join(parsed.dir, `${parsed.name}.report.json`);
+
+  fs.writeFileSync(
+    reportPath,
+    JSON.stringify({
+      roster: rosterPath,
+      generatedAt: new Date().toISOString(),
+      granted: results.filter((result) => result.status === "granted").length,
+      proposed: results.filter((result) => result.status === "proposed").length,
+      failed: results.filter((result) => result.status === "failed").length,
+      skipped: results.filter((result) => result.status === "skipped").length,
+      results,
+    }, null, 2)
+  );
+
+  return reportPath;
+}
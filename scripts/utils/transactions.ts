@@ -0,0 +1,239 @@
+import { ethers } from "hardhat";
+import { ErrorDescription, ErrorFragment, Interface, isHexString } from "ethers";
+import type { ContractTransactionResponse, TransactionReceipt } from "ethers";
+import {
+  AccessControlContract__factory,
+  ApprovalQueueContract__factory,
+  TokenContract__factory,
+  VestingContract__factory
+} from "../../typechain-types";
+import { decodePauseScopes } from "./pause";
+import { PROPOSAL_STATUSES } from "./proposals";
+
+// blocks to wait for after a transaction is mined, raise it on chains that reorganize
+export const DEFAULT_CONFIRMATIONS = parseInt(process.env.CONFIRMATIONS || "1");
+
+// the require strings of the role modifiers and the role that satisfies each
+const ROLE_REQUIREMENTS: Record<string, string> = {
+  "Only admin can perform this action": "ADMIN_ROLE",
+  "Only granter can perform this action": "GRANTER_ROLE",
+  "Only approver can perform this action": "APPROVER_ROLE",
+  "Only minter can mint tokens": "MINTER_ROLE",
+};
+
+// errors of every equity contract in one interface, a call into one contract can revert with another's error
+const ERROR_INTERFACE = (() => {
+  const fragments = new Map<string, ErrorFragment>();
+  for (const abi of [VestingContract__factory.abi, TokenContract__factory.abi, AccessControlContract__factory.abi, ApprovalQueueContract__factory.abi]) {
+    for (const fragment of new Interface(abi).fragments) {
+      if (fragment instanceof ErrorFragment) {
+        fragments.set(fragment.format("sighash"), fragment);
+      }
+    }
+  }
+  return new Interface([...fragments.values()]);
+})();
+
+// a write method of a typechain contract, e.g. vestingContract.grantEquity
+interface WriteMethod<A extends unknown[]> {
+  staticCall(...args: A): Promise<unknown>;
+  send(...args: A): Promise<ContractTransactionResponse>;
+}
+
+export function formatDuration(
+  seconds: number | bigint
+): string {
+  let remaining = Number(seconds);
+  if (remaining <= 0) {
+    return "0 seconds";
+  }
+
+  const parts: string[] = [];
+  for (const [unit, size] of [["day", 86400], ["hour", 3600], ["minute", 60], ["second", 1]] as const) {
+    const count = Math.floor(remaining / size);
+    if (count > 0) {
+      parts.push(`${count} ${unit}${count === 1 ? "" : "s"}`);
+      remaining -= count * size;
+    }
+    // the two largest units are precise enough for a wait
+    if (parts.length === 2) {
+      break;
+    }
+  }
+  return parts.join(" ");
+}
+
+function formatTime(
+  timestamp: bigint
+): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+// providers nest the revert data differently, hardhat's in-process network and JSON-RPC nodes included
+function findRevertData(
+  error: any,
+  depth: number = 0
+): string | undefined {
+  if (error === undefined || error === null || depth > 5) {
+    return undefined;
+  }
+  if (typeof error === "string") {
+    // "0x" is a revert without a reason
+    return isHexString(error) && error.length >= 10 ? error : undefined;
+  }
+  if (typeof error !== "object") {
+    return undefined;
+  }
+
+  for (const candidate of [error.data, error.error, error.info?.error, error.cause]) {
+    const data = findRevertData(candidate, depth + 1);
+    if (data) {
+      return data;
+    }
+  }
+  return undefined;
+}
+
+export function decodeContractError(
+  error: unknown
+): ErrorDescription | undefined {
+  const data = findRevertData(error);
+  if (!data) {
+    return undefined;
+  }
+  try {
+    return ERROR_INTERFACE.parseError(data) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function explainContractError(
+  decoded: ErrorDescription
+): string {
+  const args = decoded.args;
+  switch (decoded.name) {
+    case "Error": {
+      const role = ROLE_REQUIREMENTS[args[0]];
+      return role ? `${args[0]}. Switch to an account with ${role} or ask an admin to grant it.` : args[0];
+    }
+    case "Panic":
+      return `The contract hit an internal error (panic code ${args[0]}).`;
+
+    case "InvalidEquityClass":
+      return `${args.reason}.`;
+    case "NoEquityGranted":
+      return `${args.employee} has no equity grants.`;
+    case "NoTokensToClaim":
+      return "No tokens available to claim yet.";
+    case "InsufficientBalance":
+      return `The vesting contract needs ${args.required} tokens but holds ${args.available}. Mint more tokens to it first.`;
+    case "CliffPeriodNotMet":
+      return `Cliff period not met yet. Tokens start vesting in ${formatDuration(args.remainingTime)}.`;
+    case "ZeroAddress":
+      return "An address was left empty (the zero address is not allowed).";
+    case "InvalidVestingParameters":
+      return "The vesting parameters are invalid. Check that lists match in length, milestones move forward and percentages are in range.";
+    case "EmployeeAlreadyTerminated":
+      return `${args.employee} is already terminated.`;
+    case "InvalidTerminationTime":
+      return `Termination time ${formatTime(args.terminationTime)} must be set and can't be in the future.`;
+    case "InvalidGrantId":
+      return `${args.employee} has no grant with ID ${args.grantId}.`;
+    case "ContractPaused":
+      return `An emergency pause has halted ${decodePauseScopes(Number(args.scope)).join(", ") || "this action"}. Try again once it is lifted.`;
+    case "RetiredEquityClass":
+      return `Equity class ${ethers.decodeBytes32String(args.name)} is retired and takes no new grants.`;
+    case "PoolBudgetExceeded":
+      return `Equity class ${ethers.decodeBytes32String(args.name)} has ${args.available} tokens left in its pool, ${args.requested} were requested. Raise its budget first.`;
+    case "InvalidTermsVersion":
+      return `Equity class ${ethers.decodeBytes32String(args.name)} has no terms version ${args.version}.`;
+    case "InvalidStartTime":
+      return `Start time ${formatTime(args.startTime)} is outside the allowed backdate and forward-date window.`;
+    case "BatchTooLarge":
+      return `A batch of ${args.size} is too large, the limit is ${args.maxSize}.`;
+    case "ApprovalRequired":
+      return "Approvals are required, so this has to be proposed and approved through the approval queue.";
+    case "SignatureExpired":
+      return `The signed request expired at ${formatTime(args.deadline)}. Ask the employee to sign a new one.`;
+    case "InvalidSignature":
+      return "The signature doesn't match the employee or the current nonce.";
+    case "WalletMigrated":
+      return `The grants of ${args.wallet} were moved to a new wallet, so it can't hold grants anymore.`;
+    case "DestinationHasGrants":
+      return `${args.wallet} already holds grants. Grants can only move to an unused wallet.`;
+    case "LegacyGrantNotMigrated":
+      return `${args.employee} still has a grant from before grant IDs. Migrate it to a grant ID first.`;
+
+    case "SenderNotAllowlisted":
+      return `${args.sender} is not an approved holder, so it can't send tokens. Ask an admin to allowlist it.`;
+    case "RecipientNotAllowlisted":
+      return `${args.recipient} is not an approved holder, so it can't receive tokens. Ask an admin to allowlist it.`;
+    case "TokensLocked":
+      return `Tokens of ${args.holder} are in a post-claim lockup until ${formatTime(args.lockedUntil)}.`;
+    case "UnvestedVotesLocked":
+      return `${args.totalUnvestedBalance} unvested tokens are already tracked, so counting them toward votes can no longer be changed.`;
+
+    case "InvalidPauseScope":
+      return `Pause scope ${args.scopes} is not a valid combination of claims, grants and transfers.`;
+
+    case "UnsupportedAction":
+      return `The approval queue doesn't handle calls with selector ${args.selector}.`;
+    case "InvalidProposalId":
+      return `Proposal ${args.proposalId} does not exist.`;
+    case "InvalidProposalStatus":
+      return `Proposal ${args.proposalId} is ${PROPOSAL_STATUSES[Number(args.status)] ?? "in another state"}, which doesn't allow this.`;
+    case "ProposalExpired":
+      return `Proposal ${args.proposalId} has expired. Propose it again.`;
+    case "SelfApproval":
+      return `Proposal ${args.proposalId} must be approved by someone other than its proposer.`;
+    case "InvalidProposalLifetime":
+      return "The proposal lifetime must be above zero.";
+
+    case "OwnableUnauthorizedAccount":
+      return `${args.account} is not the owner of the contract.`;
+    case "ERC20InsufficientBalance":
+      return `${args.sender} holds ${args.balance} tokens, ${args.needed} are needed.`;
+    default:
+      return `${decoded.name}(${decoded.args.map((arg: unknown) => String(arg)).join(", ")})`;
+  }
+}
+
+// a readable reason for anything a contract call threw, falling back to the provider's message
+export function describeError(
+  error: unknown
+): string {
+  const decoded = decodeContractError(error);
+  if (decoded) {
+    return explainContractError(decoded);
+  }
+  // ethers puts the reason without the request dump in shortMessage
+  if (typeof error === "object" && error !== null && "shortMessage" in error && typeof error.shortMessage === "string") {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// simulated first, so a call that would revert never costs gas and fails with a readable reason
+export async function sendTransaction<A extends unknown[]>(
+  method: WriteMethod<A>,
+  args: A,
+  confirmations: number = DEFAULT_CONFIRMATIONS
+): Promise<TransactionReceipt> {
+  let receipt: TransactionReceipt | null;
+  let tx: ContractTransactionResponse;
+  try {
+    await method.staticCall(...args);
+    tx = await method.send(...args);
+    console.log(`Sent ${tx.hash}, waiting for ${confirmations} confirmation(s)...`);
+    receipt = await tx.wait(confirmations);
+  } catch (error) {
+    throw new Error(describeError(error));
+  }
+
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was dropped`);
+  }
+  console.log(`Confirmed in block ${receipt.blockNumber} with ${await receipt.confirmations()} confirmation(s)`);
+  return receipt;
+}
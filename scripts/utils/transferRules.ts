@@ -0,0 +1,41 @@
+import type { TokenContract } from "../../typechain-types";
+import { decodeContractError, explainContractError } from "./transactions";
+
+export interface TransferStatus {
+  restrictionsEnabled: boolean;
+  allowlisted: boolean;
+  exempt: boolean;
+  lockupPeriod: bigint;
+  lockedUntil: bigint;
+}
+
+export async function getTransferStatus(
+  tokenContract: TokenContract,
+  account: string
+): Promise<TransferStatus> {
+  return {
+    restrictionsEnabled: await tokenContract.transferRestrictionsEnabled(),
+    allowlisted: await tokenContract.allowlisted(account),
+    exempt: await tokenContract.transferExempt(account),
+    lockupPeriod: await tokenContract.lockupPeriods(account),
+    lockedUntil: await tokenContract.lockedUntil(account),
+  };
+}
+
+// returns why a transfer from `from` to `to` would be blocked, or undefined if it is allowed
+export async function explainTransferRestriction(
+  tokenContract: TokenContract,
+  from: string,
+  to: string
+): Promise<string | undefined> {
+  try {
+    await tokenContract.checkTransfer(from, to);
+    return undefined;
+  } catch (error) {
+    const decoded = decodeContractError(error);
+    if (!decoded) {
+      throw error;
+    }
+    return explainContractError(decoded);
+  }
+}
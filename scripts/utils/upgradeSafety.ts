@@ -0,0 +1,244 @@
+import hre, { ethers, network, upgrades } from "hardhat";
+import Table from "cli-table3";
+import {
+  Manifest,
+  StorageItem,
+  StorageLayout,
+  getStorageLayout,
+  getStorageLayoutForAddress,
+  getUnlinkedBytecode,
+  getVersion
+} from "@openzeppelin/upgrades-core";
+import { readValidations } from "@openzeppelin/hardhat-upgrades/dist/utils/validations";
+import type { DeployTransaction } from "@openzeppelin/hardhat-upgrades/dist/utils/deploy";
+import type { Contract, TransactionReceipt } from "ethers";
+import { ContractKey, NetworkDeployment } from "./registry";
+
+export const CONTRACT_NAMES: Record<ContractKey, string> = {
+  accessControlContract: "AccessControlContract",
+  tokenContract: "TokenContract",
+  vestingContract: "VestingContract",
+  approvalQueueContract: "ApprovalQueueContract",
+};
+
+export type LayoutChange = "unchanged" | "added" | "removed" | "moved" | "retyped" | "resized";
+
+export interface LayoutDiffEntry {
+  contract: string;
+  label: string;
+  change: LayoutChange;
+  oldSlot?: string;
+  newSlot?: string;
+  oldType?: string;
+  newType?: string;
+}
+
+export interface GapUsage {
+  contract: string;
+  oldSize: number;
+  newSize: number;
+}
+
+export interface StorageLayoutDiff {
+  entries: LayoutDiffEntry[];
+  gaps: GapUsage[];
+}
+
+export function getUpgradeOptions(
+  key: ContractKey,
+  deployment: NetworkDeployment
+) {
+  // VestingContract and ApprovalQueueContract keep the addresses they call as immutables
+  if (key === "vestingContract") {
+    return {
+      kind: "transparent" as const,
+      constructorArgs: [deployment.contracts.tokenContract.proxy, deployment.contracts.accessControlContract.proxy]
+    };
+  }
+  if (key === "approvalQueueContract") {
+    return {
+      kind: "transparent" as const,
+      constructorArgs: [deployment.contracts.vestingContract.proxy, deployment.contracts.accessControlContract.proxy]
+    };
+  }
+  return { kind: "transparent" as const };
+}
+
+// upgradeProxy attaches the upgrade transaction to the instance it returns
+export async function getUpgradeReceipt(
+  upgradedContract: Contract
+): Promise<TransactionReceipt | undefined> {
+  const { deployTransaction } = upgradedContract as Contract & DeployTransaction;
+  return await deployTransaction?.wait() ?? undefined;
+}
+
+export async function validateContractUpgrade(
+  key: ContractKey,
+  deployment: NetworkDeployment
+) {
+  const factory = await ethers.getContractFactory(CONTRACT_NAMES[key]);
+  await upgrades.validateUpgrade(deployment.contracts[key]!.proxy, factory, getUpgradeOptions(key, deployment));
+}
+
+function gapSize(
+  type: string
+): number {
+  const match = type.match(/^t_array\(t_uint256\)(\d+)_storage$/);
+  return match ? parseInt(match[1]) : 0;
+}
+
+function diffLayouts(
+  oldLayout: StorageLayout,
+  newLayout: StorageLayout
+): StorageLayoutDiff {
+  const key = (item: StorageItem) => `${item.contract}.${item.label}`;
+  const oldItems = new Map(oldLayout.storage.map((item) => [key(item), item]));
+  const newKeys = new Set(newLayout.storage.map(key));
+
+  const entries: LayoutDiffEntry[] = [];
+  const gaps: GapUsage[] = [];
+
+  for (const item of newLayout.storage) {
+    const oldItem = oldItems.get(key(item));
+
+    if (item.label === "__gap") {
+      gaps.push({
+        contract: item.contract,
+        oldSize: oldItem ? gapSize(oldItem.type) : 0,
+        newSize: gapSize(item.type),
+      });
+    }
+
+    let change: LayoutChange = "unchanged";
+    if (!oldItem) {
+      change = "added";
+    } else if (item.label === "__gap" && oldItem.type !== item.type) {
+      change = "resized";
+    } else if (oldItem.slot !== item.slot || oldItem.offset !== item.offset) {
+      change = "moved";
+    } else if (oldItem.type !== item.type) {
+      change = "retyped";
+    }
+
+    entries.push({
+      contract: item.contract,
+      label: item.label,
+      change,
+      oldSlot: oldItem?.slot,
+      newSlot: item.slot,
+      oldType: oldItem ? oldLayout.types[oldItem.type]?.label ?? oldItem.type : undefined,
+      newType: newLayout.types[item.type]?.label ?? item.type,
+    });
+  }
+
+  for (const [itemKey, item] of oldItems) {
+    if (!newKeys.has(itemKey)) {
+      entries.push({
+        contract: item.contract,
+        label: item.label,
+        change: "removed",
+        oldSlot: item.slot,
+        oldType: oldLayout.types[item.type]?.label ?? item.type,
+      });
+    }
+  }
+
+  return { entries, gaps };
+}
+
+export async function getStorageLayoutDiff(
+  key: ContractKey,
+  deployment: NetworkDeployment
+): Promise<StorageLayoutDiff> {
+  const factory = await ethers.getContractFactory(CONTRACT_NAMES[key]);
+  const options = getUpgradeOptions(key, deployment);
+
+  // mirrors how hardhat-upgrades derives layouts for the deployed and the local implementation
+  const validations = await readValidations(hre);
+  const unlinkedBytecode = getUnlinkedBytecode(validations, factory.bytecode);
+  const encodedArgs = factory.interface.encodeDeploy("constructorArgs" in options ? options.constructorArgs : []);
+  const newLayout = getStorageLayout(validations, getVersion(unlinkedBytecode, factory.bytecode, encodedArgs));
+
+  const manifest = await Manifest.forNetwork(network.provider);
+  const currentImplementation = await upgrades.erc1967.getImplementationAddress(deployment.contracts[key]!.proxy);
+  const oldLayout = await getStorageLayoutForAddress(manifest, validations, currentImplementation);
+
+  return diffLayouts(oldLayout, newLayout);
+}
+
+export function printStorageLayoutDiff(
+  diff: StorageLayoutDiff
+) {
+  const markers: Record<LayoutChange, string> = {
+    unchanged: "",
+    added: "➕ added",
+    removed: "❌ removed",
+    moved: "❌ moved",
+    retyped: "⚠️ type changed",
+    resized: "↔️ resized",
+  };
+
+  const table = new Table({
+    head: ["Contract", "Variable", "Slot", "Type", "Change"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const entry of diff.entries) {
+    const slot = entry.oldSlot !== undefined && entry.newSlot !== undefined && entry.oldSlot !== entry.newSlot
+      ? `${entry.oldSlot} → ${entry.newSlot}`
+      : entry.newSlot ?? entry.oldSlot ?? "";
+    const type = entry.oldType !== undefined && entry.newType !== undefined && entry.oldType !== entry.newType
+      ? `${entry.oldType} → ${entry.newType}`
+      : entry.newType ?? entry.oldType ?? "";
+
+    table.push([entry.contract, entry.label, slot, type, markers[entry.change]]);
+  }
+
+  console.log(table.toString());
+
+  for (const gap of diff.gaps) {
+    const consumed = gap.oldSize - gap.newSize;
+    console.log(`${gap.contract}.__gap: ${gap.oldSize} → ${gap.newSize} slots (${consumed} consumed, ${gap.newSize} left)`);
+  }
+
+  if (diff.gaps.length === 0) {
+    console.log("No __gap in the sequential layout (OpenZeppelin v5 parents use namespaced storage).");
+  }
+}
+
+// in a rehearsal the hardhat network forks the live chain, so read the registry for the forked chain
+export async function getForkedChainId(): Promise<number | undefined> {
+  try {
+    const metadata = await network.provider.send("hardhat_metadata", []);
+    return metadata.forkedNetwork?.chainId;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function impersonateProxyAdminOwner(
+  key: ContractKey,
+  deployment: NetworkDeployment
+) {
+  const proxyAdmin = await ethers.getContractAt(
+    ["function owner() view returns (address)"],
+    deployment.contracts[key]!.admin
+  );
+  const owner: string = await proxyAdmin.owner();
+
+  await network.provider.send("hardhat_setBalance", [owner, ethers.toQuantity(ethers.parseEther("10"))]);
+  return ethers.getImpersonatedSigner(owner);
+}
+
+// OpenZeppelin 5 keeps Initializable state in a namespaced slot, the version in its lowest 64 bits
+const INITIALIZABLE_STORAGE_SLOT = "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+
+export async function getInitializedVersion(
+  proxy: string
+): Promise<bigint> {
+  const storage = BigInt(await ethers.provider.getStorage(proxy, INITIALIZABLE_STORAGE_SLOT));
+  return storage & ((1n << 64n) - 1n);
+}
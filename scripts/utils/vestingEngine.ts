@@ -0,0 +1,393 @@
+import Table from "cli-table3";
+import type { VestingContract } from "../../typechain-types";
+
+// Mirrors the vesting math in VestingContract with the same integer rounding,
+// so projections match what the contract reports without a chain connection.
+
+export const BASIS_POINTS = 10000n;
+const DEFAULT_LINEAR_INTERVAL = 30n * 24n * 60n * 60n;
+
+export enum ScheduleType {
+  Step = 0,
+  Linear = 1,
+  Custom = 2
+}
+
+export interface VestingMilestone {
+  offset: bigint;
+  cumulativePercentage: bigint;
+}
+
+export interface VestingSchedule {
+  scheduleType: ScheduleType;
+  cliffPeriod: bigint;
+  vestingPeriod: bigint;
+  // basis points, as stored on-chain
+  vestingPercentage: bigint;
+  milestones: VestingMilestone[];
+}
+
+export interface GrantTerms {
+  totalTokens: bigint;
+  startTime: bigint;
+  claimedTokens: bigint;
+  terminationTime: bigint;
+  // tokens vested early by acceleration, on top of the schedule
+  acceleratedTokens?: bigint;
+}
+
+export interface VestingEvent {
+  timestamp: bigint;
+  amount: bigint;
+  cumulativeAmount: bigint;
+}
+
+// an acceleration vests its tokens at the moment it is applied
+export interface AccelerationEvent {
+  timestamp: bigint;
+  amount: bigint;
+}
+
+export interface ConsistencyResult {
+  grantId: number;
+  timestamp: bigint;
+  engineClaimable: bigint;
+  contractClaimable: bigint;
+  engineNext: [bigint, bigint];
+  contractNext: [bigint, bigint];
+  matches: boolean;
+}
+
+function customVestedPercentage(
+  schedule: VestingSchedule,
+  elapsedTime: bigint
+): bigint {
+  let vestedPercentage = 0n;
+  for (const milestone of schedule.milestones) {
+    if (milestone.offset > elapsedTime) {
+      break;
+    }
+    vestedPercentage = milestone.cumulativePercentage;
+  }
+  return vestedPercentage;
+}
+
+function minBigInt(
+  a: bigint,
+  b: bigint
+): bigint {
+  return a < b ? a : b;
+}
+
+export function vestedAmountAt(
+  schedule: VestingSchedule,
+  grant: GrantTerms,
+  timestamp: bigint
+): bigint {
+  return minBigInt(scheduledAmountAt(schedule, grant, timestamp) + (grant.acceleratedTokens ?? 0n), grant.totalTokens);
+}
+
+function scheduledAmountAt(
+  schedule: VestingSchedule,
+  grant: GrantTerms,
+  timestamp: bigint
+): bigint {
+  if (timestamp < grant.startTime) {
+    return 0n;
+  }
+
+  const elapsedTime = timestamp - grant.startTime;
+  if (elapsedTime < schedule.cliffPeriod) {
+    return 0n;
+  }
+
+  if (schedule.scheduleType === ScheduleType.Linear) {
+    if (elapsedTime >= schedule.vestingPeriod) {
+      return grant.totalTokens;
+    }
+    return (grant.totalTokens * elapsedTime) / schedule.vestingPeriod;
+  }
+
+  if (schedule.scheduleType === ScheduleType.Custom) {
+    return (grant.totalTokens * customVestedPercentage(schedule, elapsedTime)) / BASIS_POINTS;
+  }
+
+  const completedPeriods = (elapsedTime - schedule.cliffPeriod) / schedule.vestingPeriod;
+  let vestedPercentage = schedule.vestingPercentage + completedPeriods * schedule.vestingPercentage;
+  if (vestedPercentage > BASIS_POINTS) {
+    vestedPercentage = BASIS_POINTS;
+  }
+
+  return (grant.totalTokens * vestedPercentage) / BASIS_POINTS;
+}
+
+export function claimableAmountAt(
+  schedule: VestingSchedule,
+  grant: GrantTerms,
+  timestamp: bigint
+): bigint {
+  // terminated grants were cut down to their vested amount
+  const vestedAmount = grant.terminationTime !== 0n
+    ? grant.totalTokens
+    : vestedAmountAt(schedule, grant, timestamp);
+
+  return grant.claimedTokens >= vestedAmount ? 0n : vestedAmount - grant.claimedTokens;
+}
+
+export function nextVestingAt(
+  schedule: VestingSchedule,
+  grant: GrantTerms,
+  timestamp: bigint
+): [bigint, bigint] {
+  const [amount, unlockTime] = nextScheduledVestingAt(schedule, grant, timestamp);
+
+  const acceleratedTokens = grant.acceleratedTokens ?? 0n;
+  if (acceleratedTokens === 0n || unlockTime === 0n) {
+    return [amount, unlockTime];
+  }
+
+  // acceleration already covered the end of the schedule, so trim the next batch to what is left
+  const scheduledAmount = scheduledAmountAt(schedule, grant, timestamp);
+  const vestedNow = minBigInt(scheduledAmount + acceleratedTokens, grant.totalTokens);
+  const vestedNext = minBigInt(scheduledAmount + amount + acceleratedTokens, grant.totalTokens);
+  if (vestedNext === vestedNow) {
+    return [0n, 0n];
+  }
+  return [vestedNext - vestedNow, unlockTime];
+}
+
+function nextScheduledVestingAt(
+  schedule: VestingSchedule,
+  grant: GrantTerms,
+  timestamp: bigint
+): [bigint, bigint] {
+  if (grant.terminationTime !== 0n) {
+    return [0n, 0n];
+  }
+
+  // nothing has vested before a future start, so an unlock right at the start is still ahead
+  const notStarted = timestamp < grant.startTime;
+  const elapsedTime = notStarted ? 0n : timestamp - grant.startTime;
+
+  if (schedule.scheduleType === ScheduleType.Linear) {
+    if (elapsedTime < schedule.cliffPeriod) {
+      return [(grant.totalTokens * schedule.cliffPeriod) / schedule.vestingPeriod, grant.startTime + schedule.cliffPeriod];
+    }
+    if (elapsedTime >= schedule.vestingPeriod) {
+      return [0n, 0n];
+    }
+    const vestedAmount = (grant.totalTokens * elapsedTime) / schedule.vestingPeriod;
+    return [grant.totalTokens - vestedAmount, grant.startTime + schedule.vestingPeriod];
+  }
+
+  if (schedule.scheduleType === ScheduleType.Custom) {
+    let previousPercentage = 0n;
+    for (const milestone of schedule.milestones) {
+      if (notStarted || milestone.offset > elapsedTime) {
+        const previousAmount = (grant.totalTokens * previousPercentage) / BASIS_POINTS;
+        const nextAmount = (grant.totalTokens * milestone.cumulativePercentage) / BASIS_POINTS;
+        return [nextAmount - previousAmount, grant.startTime + milestone.offset];
+      }
+      previousPercentage = milestone.cumulativePercentage;
+    }
+    return [0n, 0n];
+  }
+
+  const batchAmount = (grant.totalTokens * schedule.vestingPercentage) / BASIS_POINTS;
+  if (notStarted || elapsedTime < schedule.cliffPeriod) {
+    return [batchAmount, grant.startTime + schedule.cliffPeriod];
+  }
+
+  const currentPeriods = 1n + (elapsedTime - schedule.cliffPeriod) / schedule.vestingPeriod;
+  if (currentPeriods * schedule.vestingPercentage >= BASIS_POINTS) {
+    return [0n, 0n];
+  }
+
+  return [batchAmount, grant.startTime + schedule.cliffPeriod + currentPeriods * schedule.vestingPeriod];
+}
+
+function unlockOffsets(
+  schedule: VestingSchedule,
+  linearInterval: bigint
+): bigint[] {
+  if (schedule.scheduleType === ScheduleType.Custom) {
+    return schedule.milestones.map((milestone) => milestone.offset);
+  }
+
+  const offsets: bigint[] = [schedule.cliffPeriod];
+
+  if (schedule.scheduleType === ScheduleType.Linear) {
+    // linear vesting is continuous, so sample it at a fixed interval after the cliff
+    for (let offset = schedule.cliffPeriod + linearInterval; offset < schedule.vestingPeriod; offset += linearInterval) {
+      offsets.push(offset);
+    }
+    if (schedule.vestingPeriod > schedule.cliffPeriod) {
+      offsets.push(schedule.vestingPeriod);
+    }
+    return offsets;
+  }
+
+  let vestedPercentage = schedule.vestingPercentage;
+  for (let period = 1n; vestedPercentage > 0n && vestedPercentage < BASIS_POINTS; period++) {
+    offsets.push(schedule.cliffPeriod + period * schedule.vestingPeriod);
+    vestedPercentage += schedule.vestingPercentage;
+  }
+  return offsets;
+}
+
+export function projectVestingTimeline(
+  schedule: VestingSchedule,
+  grant: GrantTerms,
+  linearInterval: bigint = DEFAULT_LINEAR_INTERVAL
+): VestingEvent[] {
+  // a terminated grant only keeps its vested total, the original size is gone
+  if (grant.terminationTime !== 0n) {
+    return grant.totalTokens > 0n
+      ? [{ timestamp: grant.terminationTime, amount: grant.totalTokens, cumulativeAmount: grant.totalTokens }]
+      : [];
+  }
+
+  const events: VestingEvent[] = [];
+  let previousAmount = 0n;
+
+  for (const offset of unlockOffsets(schedule, linearInterval)) {
+    const timestamp = grant.startTime + offset;
+    const cumulativeAmount = vestedAmountAt(schedule, grant, timestamp);
+    if (cumulativeAmount > previousAmount) {
+      events.push({ timestamp, amount: cumulativeAmount - previousAmount, cumulativeAmount });
+      previousAmount = cumulativeAmount;
+    }
+  }
+
+  return events;
+}
+
+// vest events that have already happened, for a grant at its original size, with accelerations
+// vesting when they were applied and a terminated grant vesting nothing after its termination
+export function pastVestEvents(
+  schedule: VestingSchedule,
+  grant: GrantTerms,
+  accelerations: AccelerationEvent[],
+  until: bigint,
+  linearInterval: bigint = DEFAULT_LINEAR_INTERVAL
+): VestingEvent[] {
+  const endTime = grant.terminationTime !== 0n && grant.terminationTime < until ? grant.terminationTime : until;
+
+  const timestamps = new Set<bigint>([
+    ...unlockOffsets(schedule, linearInterval).map((offset) => grant.startTime + offset),
+    ...accelerations.map((acceleration) => acceleration.timestamp),
+  ]);
+  // linear vesting keeps accruing until the termination, which rarely lands on a sample
+  if (grant.terminationTime !== 0n && grant.terminationTime <= until) {
+    timestamps.add(grant.terminationTime);
+  }
+
+  const events: VestingEvent[] = [];
+  let previousAmount = 0n;
+
+  for (const timestamp of [...timestamps].filter((time) => time <= endTime).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+    const acceleratedTokens = accelerations
+      .filter((acceleration) => acceleration.timestamp <= timestamp)
+      .reduce((total, acceleration) => total + acceleration.amount, 0n);
+    const cumulativeAmount = vestedAmountAt(schedule, { ...grant, acceleratedTokens }, timestamp);
+    if (cumulativeAmount > previousAmount) {
+      events.push({ timestamp, amount: cumulativeAmount - previousAmount, cumulativeAmount });
+      previousAmount = cumulativeAmount;
+    }
+  }
+
+  return events;
+}
+
+export function printVestingTimeline(
+  events: VestingEvent[],
+  totalTokens: bigint,
+  now?: bigint
+) {
+  const table = new Table({
+    head: ["Date", "Unlocks", "Cumulative", "Vested %", ""],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const event of events) {
+    const percentage = totalTokens > 0n
+      ? Number((event.cumulativeAmount * 10000n) / totalTokens) / 100
+      : 0;
+    table.push([
+      new Date(Number(event.timestamp) * 1000).toISOString().replace("T", " ").slice(0, 19),
+      event.amount.toString(),
+      event.cumulativeAmount.toString(),
+      `${percentage.toFixed(2)}%`,
+      now !== undefined && event.timestamp <= now ? "✅ vested" : ""
+    ]);
+  }
+
+  console.log(table.toString());
+}
+
+// loads the current terms of a class, or the terms of an earlier version that grants were issued under
+export async function loadVestingSchedule(
+  vestingContract: VestingContract,
+  equityClassName: string,
+  blockTag?: number,
+  termsVersion?: bigint
+): Promise<VestingSchedule> {
+  const version = termsVersion ?? (await vestingContract.getEquityClassPool(equityClassName, { blockTag })).currentVersion;
+  const [terms, milestones] = await vestingContract.getEquityClassTerms(equityClassName, version, { blockTag });
+
+  return {
+    scheduleType: Number(terms.scheduleType) as ScheduleType,
+    cliffPeriod: terms.cliffPeriod,
+    vestingPeriod: terms.vestingPeriod,
+    vestingPercentage: terms.vestingPercentage,
+    milestones: milestones.map((milestone) => ({
+      offset: milestone.offset,
+      cumulativePercentage: milestone.cumulativePercentage,
+    })),
+  };
+}
+
+export async function checkConsistency(
+  vestingContract: VestingContract,
+  employee: string,
+  timestamp: bigint,
+  blockTag: number
+): Promise<ConsistencyResult[]> {
+  const grants = await vestingContract.getGrants(employee, { blockTag });
+  const results: ConsistencyResult[] = [];
+
+  for (let grantId = 0; grantId < grants.length; grantId++) {
+    const grant = grants[grantId];
+    const termsVersion = await vestingContract.getGrantTermsVersion(employee, grantId, { blockTag });
+    const schedule = await loadVestingSchedule(vestingContract, grant.equityClass, blockTag, termsVersion);
+    const terms: GrantTerms = {
+      totalTokens: grant.totalTokens,
+      startTime: grant.startTime,
+      claimedTokens: grant.claimedTokens,
+      terminationTime: grant.terminationTime,
+      acceleratedTokens: await vestingContract.getGrantAcceleratedTokens(employee, grantId, { blockTag }),
+    };
+
+    const engineClaimable = claimableAmountAt(schedule, terms, timestamp);
+    const engineNext = nextVestingAt(schedule, terms, timestamp);
+    const contractClaimable = await vestingContract.calculateGrantVestedTokens(employee, grantId, { blockTag });
+    const [nextAmount, nextUnlock] = await vestingContract.getNextGrantVestingAmount(employee, grantId, { blockTag });
+
+    results.push({
+      grantId,
+      timestamp,
+      engineClaimable,
+      contractClaimable,
+      engineNext,
+      contractNext: [nextAmount, nextUnlock],
+      matches: engineClaimable === contractClaimable
+        && engineNext[0] === nextAmount
+        && engineNext[1] === nextUnlock,
+    });
+  }
+
+  return results;
+}
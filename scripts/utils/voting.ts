@@ -0,0 +1,181 @@
+import { ethers } from "hardhat";
+import Table from "cli-table3";
+import { TokenContract, VestingContract } from "../../typechain-types";
+import { grantHolders, loadGrants, queryInChunks } from "./grants";
+import { sendTransaction } from "./transactions";
+
+// each employee costs one grant loop in the vesting contract, so keep a sync transaction small
+export const UNVESTED_SYNC_BATCH_SIZE = 50;
+
+export interface VotingPower {
+  account: string;
+  blockNumber: number;
+  votes: bigint;
+  delegate: string;
+  balance: bigint;
+  unvestedBalance: bigint;
+  unvestedCounted: boolean;
+}
+
+export interface DelegateRow {
+  delegate: string;
+  votes: bigint;
+  delegators: number;
+}
+
+export interface VotingPowerReport {
+  blockNumber: number;
+  totalSupply: bigint;
+  delegatedVotes: bigint;
+  unvestedCounted: boolean;
+  rows: DelegateRow[];
+}
+
+// checkpoints only answer for blocks that are already mined, the current block is read as live state
+async function votesAt(
+  tokenContract: TokenContract,
+  account: string,
+  blockNumber: number
+): Promise<bigint> {
+  const latestBlock = await ethers.provider.getBlockNumber();
+  return blockNumber < latestBlock
+    ? tokenContract.getPastVotes(account, blockNumber)
+    : tokenContract.getVotes(account);
+}
+
+export async function getVotingPower(
+  tokenContract: TokenContract,
+  account: string,
+  blockNumber: number
+): Promise<VotingPower> {
+  const [votes, delegate, balance, unvestedBalance, unvestedCounted] = await Promise.all([
+    votesAt(tokenContract, account, blockNumber),
+    tokenContract.delegates(account, { blockTag: blockNumber }),
+    tokenContract.balanceOf(account, { blockTag: blockNumber }),
+    tokenContract.unvestedBalances(account, { blockTag: blockNumber }),
+    tokenContract.unvestedVotesEnabled({ blockTag: blockNumber }),
+  ]);
+
+  return { account, blockNumber, votes, delegate, balance, unvestedBalance, unvestedCounted };
+}
+
+export function printVotingPower(
+  power: VotingPower
+) {
+  const table = new Table({
+    head: ["Address", "Block", "Votes", "Delegated To", "Balance", "Unvested", "Unvested Counted"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  table.push([
+    power.account,
+    power.blockNumber.toString(),
+    power.votes.toString(),
+    power.delegate === ethers.ZeroAddress ? "nobody" : power.delegate,
+    power.balance.toString(),
+    power.unvestedBalance.toString(),
+    power.unvestedCounted ? "Yes" : "No"
+  ]);
+
+  console.log(table.toString());
+  if (power.delegate === ethers.ZeroAddress) {
+    console.log("Tokens only count as votes once delegated, delegate to yourself to vote directly.");
+  }
+}
+
+export async function buildVotingPowerReport(
+  tokenContract: TokenContract,
+  fromBlock: number,
+  blockNumber: number
+): Promise<VotingPowerReport> {
+  const delegateEvents = await queryInChunks(fromBlock, blockNumber, (from, to) =>
+    tokenContract.queryFilter(tokenContract.filters.DelegateChanged(), from, to));
+
+  // events come in chain order, so the last one per holder is their delegate at the snapshot
+  const delegateOf = new Map<string, string>();
+  for (const event of delegateEvents) {
+    delegateOf.set(event.args.delegator, event.args.toDelegate);
+  }
+
+  const delegators = new Map<string, number>();
+  for (const delegate of delegateOf.values()) {
+    if (delegate !== ethers.ZeroAddress) {
+      delegators.set(delegate, (delegators.get(delegate) || 0) + 1);
+    }
+  }
+
+  const rows: DelegateRow[] = [];
+  for (const [delegate, count] of delegators) {
+    const votes = await votesAt(tokenContract, delegate, blockNumber);
+    if (votes > 0n) {
+      rows.push({ delegate, votes, delegators: count });
+    }
+  }
+  rows.sort((a, b) => (b.votes > a.votes ? 1 : b.votes < a.votes ? -1 : 0));
+
+  const latestBlock = await ethers.provider.getBlockNumber();
+  const totalSupply = blockNumber < latestBlock
+    ? await tokenContract.getPastTotalSupply(blockNumber)
+    : await tokenContract.totalSupply();
+
+  return {
+    blockNumber,
+    totalSupply,
+    delegatedVotes: rows.reduce((total, row) => total + row.votes, 0n),
+    unvestedCounted: await tokenContract.unvestedVotesEnabled({ blockTag: blockNumber }),
+    rows,
+  };
+}
+
+function percentOf(
+  amount: bigint,
+  total: bigint
+): string {
+  return total > 0n ? `${(Number((amount * 10000n) / total) / 100).toFixed(2)}%` : "-";
+}
+
+export function printVotingPowerReport(
+  report: VotingPowerReport
+) {
+  console.log(`\nVoting power at block ${report.blockNumber} 🗳️`);
+  console.log(`Unvested tokens ${report.unvestedCounted ? "count" : "do not count"} toward their grantee's votes`);
+
+  const table = new Table({
+    head: ["Delegate", "Votes", "% of Supply", "Delegators"],
+    style: {
+      head: ['cyan'],
+      border: ['grey']
+    }
+  }) as Table.Table & { push: (row: string[]) => number };
+
+  for (const row of report.rows) {
+    table.push([
+      row.delegate,
+      row.votes.toString(),
+      percentOf(row.votes, report.totalSupply),
+      row.delegators.toString()
+    ]);
+  }
+
+  console.log(table.toString());
+  console.log(`Total supply: ${report.totalSupply}`);
+  console.log(`Delegated votes: ${report.delegatedVotes} (${percentOf(report.delegatedVotes, report.totalSupply)})`);
+}
+
+// grants from before the token tracked unvested balances have to be reported once after the upgrade
+export async function syncUnvestedBalances(
+  vestingContract: VestingContract,
+  fromBlock: number,
+  batchSize: number = UNVESTED_SYNC_BATCH_SIZE
+): Promise<number> {
+  const employees = grantHolders(await loadGrants(vestingContract, fromBlock));
+
+  for (let i = 0; i < employees.length; i += batchSize) {
+    await sendTransaction(vestingContract.syncUnvestedBalances, [employees.slice(i, i + batchSize)]);
+  }
+
+  return employees.length;
+}
@@ -0,0 +1,57 @@
+import { ethers } from "hardhat";
+import {
+  DEFAULT_REPORT_DIR,
+  buildVestIncomeRows,
+  loadFmvPrices,
+  printVestIncomeSummary,
+  writeVestIncomeReports
+} from "./utils/incomeReport";
+import { loadDeployment } from "./utils/registry";
+
+// Usage: FMV_FILE=<valuations.csv|json> [REPORT_DIR=reports] [TAX_YEAR=2025] [EMPLOYEE=<address>]
+//   npx hardhat run scripts/vestIncomeReport.ts --network <network>
+async function main() {
+  const fmvFile = process.env.FMV_FILE;
+  if (!fmvFile) {
+    throw new Error("Set FMV_FILE to the price history file (date and price per share of each 409A valuation)");
+  }
+  const employee = process.env.EMPLOYEE;
+  if (employee && !ethers.isAddress(employee)) {
+    throw new Error(`EMPLOYEE ${employee} is not a valid address`);
+  }
+  const taxYear = process.env.TAX_YEAR ? parseInt(process.env.TAX_YEAR) : undefined;
+  if (taxYear !== undefined && isNaN(taxYear)) {
+    throw new Error(`TAX_YEAR ${process.env.TAX_YEAR} is not a year`);
+  }
+
+  const prices = loadFmvPrices(fmvFile);
+  console.log(`Loaded ${prices.length} valuation(s) from ${fmvFile}`);
+
+  console.log("Loading deployment data...");
+  const deployment = await loadDeployment();
+  const vestingContract = await ethers.getContractAt("VestingContract", deployment.contracts.vestingContract.proxy);
+
+  console.log("Deriving vest events from grant schedules...");
+  const rows = (await buildVestIncomeRows(vestingContract, deployment.deploymentBlock, prices, employee))
+    .filter((row) => taxYear === undefined || row.taxYear === taxYear);
+  if (rows.length === 0) {
+    console.log("No tokens have vested for the selection. Nothing to report.");
+    return;
+  }
+
+  printVestIncomeSummary(rows);
+  const files = writeVestIncomeReports(rows, process.env.REPORT_DIR || DEFAULT_REPORT_DIR);
+  console.log(`Wrote ${files.length} report(s) to ${process.env.REPORT_DIR || DEFAULT_REPORT_DIR} 🧾`);
+
+  // payroll can't file vests without a price, so make the gap visible to whoever runs this
+  const missing = rows.filter((row) => !row.fmv);
+  if (missing.length > 0) {
+    console.error(`${missing.length} vest event(s) predate the first valuation and have no income value`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,446 @@
+import { scope, types } from "hardhat/config";
+import type { ConfigurableTaskDefinition } from "hardhat/types";
+import type { EquityClass } from "../scripts/deploy";
+import type { TxSummary } from "../scripts/utils/commands";
+
+// Non-interactive versions of the deploy.ts and interact.ts actions, e.g.
+//   npx hardhat equity grant --employee 0x... --equity-class CXO --json --network amoy
+// Every parameter can also come from a JSON object in --params-file, command line values win.
+// The scripts import hardhat themselves, so they are only loaded once a task runs.
+
+const equity = scope("equity", "Equity management commands for automation and runbooks");
+
+function equityTask(
+  name: string,
+  description: string
+): ConfigurableTaskDefinition {
+  return equity.task(name, description)
+    .addFlag("json", "Print a JSON result on stdout instead of tables")
+    .addOptionalParam("paramsFile", "JSON file with parameter values");
+}
+
+// commands that sign for a person rather than the deployer can use a keystore identity
+function signedTask(
+  name: string,
+  description: string
+): ConfigurableTaskDefinition {
+  return equityTask(name, description)
+    .addOptionalParam("keystore", "Keystore identity to sign with, its password is read from KEYSTORE_PASSWORD");
+}
+
+async function loadContext(
+  keystore?: string
+) {
+  const { connectContracts, resolveSigner } = await import("../scripts/utils/commands");
+  const { loadDeployment } = await import("../scripts/utils/registry");
+  const deployment = await loadDeployment();
+  const signer = await resolveSigner(keystore);
+  return { deployment, signer, contracts: await connectContracts(deployment, signer) };
+}
+
+function parseBlockTag(
+  value: unknown
+): number | undefined {
+  if (value === undefined || value === "latest") {
+    return undefined;
+  }
+  const blockTag = Number(value);
+  if (!Number.isInteger(blockTag) || blockTag < 0) {
+    throw new Error(`--block must be a block number, got ${value}`);
+  }
+  return blockTag;
+}
+
+function parsePoolBudgets(
+  value: unknown
+): Record<string, number> {
+  const poolBudgets: Record<string, number> = {};
+  if (value === undefined) {
+    return poolBudgets;
+  }
+  for (const pair of String(value).split(",")) {
+    const separator = pair.lastIndexOf(":");
+    const budget = Number(pair.slice(separator + 1).trim());
+    if (separator <= 0 || !Number.isInteger(budget) || budget < 0) {
+      throw new Error(`--pool-budgets must be class:budget pairs, e.g. CXO:10000,Others:8000, got ${pair}`);
+    }
+    poolBudgets[pair.slice(0, separator).trim()] = budget;
+  }
+  return poolBudgets;
+}
+
+equityTask("deploy", "Deploy and configure all equity contracts")
+  .addOptionalParam("tokens", "Total tokens to mint to VestingContract", undefined, types.int)
+  .addFlag("countUnvestedVotes", "Count unvested grant tokens toward each grantee's votes")
+  .addFlag("requireApprovals", "Send grants and class changes through the approval queue")
+  .addFlag("replace", "Replace the deployment already recorded for this chain")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, requirePositiveInt, runCommand } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("deploy", params.json, async () => {
+      const { deployAndRecord } = await import("../scripts/deploy");
+      const { findDeployment } = await import("../scripts/utils/registry");
+      const totalTokens = requirePositiveInt(params.tokens, "tokens");
+
+      const existing = await findDeployment();
+      if (existing && !params.replace) {
+        throw new Error(`Chain ${existing.chainId} already has a deployment from ${existing.deploymentTime}, pass --replace to replace it`);
+      }
+
+      await hre.run("compile", { quiet: true });
+      const deployment = await deployAndRecord({
+        totalTokens,
+        countUnvestedVotes: params.countUnvestedVotes,
+        requireApprovals: params.requireApprovals,
+        offerEquityClass: false,
+      });
+      return { result: deployment };
+    });
+  });
+
+equityTask("upgrade", "Validate and upgrade one of the deployed contracts")
+  .addOptionalParam("contract", "accessControlContract, tokenContract, vestingContract or approvalQueueContract")
+  .addFlag("confirm", "Confirm sending the upgrade transaction, the command refuses to run without it")
+  .addFlag("countUnvestedVotes", "When a token gains voting support, count unvested grant tokens toward votes")
+  .addOptionalParam("poolBudgets", "Budgets of classes from before pool budgets as class:budget pairs, the rest are capped at their granted tokens")
+  .setAction(async (taskArgs, hre) => {
+    const { connectContracts, mergeParams, resolveSigner, runCommand, summarizeReceipt } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("upgrade", params.json, async () => {
+      const { upgradeContracts } = await import("../scripts/deploy");
+      const { loadDeployment } = await import("../scripts/utils/registry");
+      const { CONTRACT_NAMES, getForkedChainId } = await import("../scripts/utils/upgradeSafety");
+      if (!Object.keys(CONTRACT_NAMES).includes(params.contract)) {
+        throw new Error(`--contract must be one of ${Object.keys(CONTRACT_NAMES).join(", ")}`);
+      }
+      if (!params.confirm) {
+        throw new Error("Pass --confirm to send the upgrade transaction");
+      }
+
+      // REHEARSAL=true FORK_URL=<rpc> rehearses against a local fork, as in scripts/deploy.ts
+      const rehearsal = process.env.REHEARSAL === "true";
+      const forkedChainId = rehearsal ? await getForkedChainId() : undefined;
+      if (rehearsal && forkedChainId === undefined) {
+        throw new Error("Rehearsal needs the hardhat network to fork a live chain. Set FORK_URL and run without --network.");
+      }
+
+      await hre.run("compile", { quiet: true });
+      const deployment = await loadDeployment(forkedChainId);
+      const upgrade = await upgradeContracts(deployment, rehearsal, {
+        contractKey: params.contract,
+        confirmed: true,
+        countUnvestedVotes: params.countUnvestedVotes,
+        poolBudgets: parsePoolBudgets(params.poolBudgets),
+      });
+      if (!upgrade) {
+        throw new Error("The upgrade did not go ahead, see the log above");
+      }
+      const contracts = await connectContracts(deployment, await resolveSigner());
+      return {
+        transactions: upgrade.upgradeReceipt ? [await summarizeReceipt(upgrade.upgradeReceipt, contracts)] : [],
+        result: {
+          contract: upgrade.key,
+          rehearsal,
+          oldImplementation: upgrade.oldImplementation,
+          newImplementation: upgrade.newImplementation,
+        },
+      };
+    });
+  });
+
+signedTask("define-class", "Define an equity class or add a new terms version to an existing one")
+  .addOptionalParam("name", "Equity class name")
+  .addOptionalParam("tokens", "Token count per grant", undefined, types.int)
+  .addOptionalParam("schedule", "step, linear or custom, defaults to step")
+  .addOptionalParam("cliff", "Cliff period in seconds", undefined, types.int)
+  .addOptionalParam("period", "Step: vesting period, linear: total duration including the cliff, in seconds", undefined, types.int)
+  .addOptionalParam("percentage", "Step: percentage vested each period (1-100)", undefined, types.int)
+  .addOptionalParam("milestones", "Custom: offset-in-seconds:cumulative-percentage pairs, e.g. 31536000:25,63072000:100")
+  .addOptionalParam("budget", "Pool budget, required for a new class", undefined, types.int)
+  .addFlag("propose", "Propose the change even when approvals are not required")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, requirePositiveInt, runCommand, sendOrPropose } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    params.schedule = params.schedule ?? "step";
+    await runCommand("define-class", params.json, async () => {
+      const { equityClassCalls, parseMilestones, validateMilestones } = await import("../scripts/deploy");
+      if (!params.name || String(params.name).trim().length === 0) {
+        throw new Error("--name is required");
+      }
+
+      const equityClass: EquityClass = {
+        name: String(params.name),
+        tokenCount: requirePositiveInt(params.tokens, "tokens"),
+        cliffPeriod: 0,
+        vestingPeriod: 0,
+        vestingPercentage: 0,
+        scheduleType: params.schedule,
+      };
+      if (params.schedule === "custom") {
+        const valid = params.milestones ? validateMilestones(params.milestones) : "--milestones is required for a custom schedule";
+        if (valid !== true) {
+          throw new Error(valid || "Invalid --milestones");
+        }
+        equityClass.milestones = parseMilestones(params.milestones);
+      } else if (params.schedule === "step" || params.schedule === "linear") {
+        equityClass.cliffPeriod = requirePositiveInt(params.cliff, "cliff");
+        equityClass.vestingPeriod = requirePositiveInt(params.period, "period");
+        if (params.schedule === "step") {
+          equityClass.vestingPercentage = requirePositiveInt(params.percentage, "percentage");
+          if (equityClass.vestingPercentage > 100) {
+            throw new Error("--percentage must be between 1 and 100");
+          }
+        }
+      } else {
+        throw new Error("--schedule must be step, linear or custom");
+      }
+
+      const { contracts } = await loadContext(params.keystore);
+      const existingNames = (await contracts.vestingContract.getEquityClassNames()).map((name) => hre.ethers.decodeBytes32String(name));
+      // an existing class keeps its pool, redefining it only adds a new terms version
+      if (!existingNames.includes(equityClass.name)) {
+        equityClass.poolBudget = requirePositiveInt(params.budget, "budget");
+        if (equityClass.poolBudget < equityClass.tokenCount) {
+          throw new Error("--budget must cover at least one grant");
+        }
+      }
+
+      const transactions = [];
+      const proposalIds = [];
+      for (const call of equityClassCalls(equityClass)) {
+        const { transaction, proposalId } = await sendOrPropose(contracts, call, params.propose);
+        transactions.push(transaction);
+        if (proposalId !== undefined) {
+          proposalIds.push(proposalId);
+        }
+      }
+      return { transactions, result: { equityClass: equityClass.name, proposed: proposalIds.length > 0, proposalIds } };
+    });
+  });
+
+signedTask("grant", "Grant equity of a class to an employee")
+  .addOptionalParam("employee", "Employee address")
+  .addOptionalParam("equityClass", "Equity class name")
+  .addOptionalParam("startDate", "Vesting start date as YYYY-MM-DD, defaults to now")
+  .addFlag("propose", "Propose the grant even when approvals are not required")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, requireAddress, runCommand, sendOrPropose } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("grant", params.json, async () => {
+      const employee = requireAddress(params.employee, "employee");
+      const { contracts } = await loadContext(params.keystore);
+      const { vestingContract } = contracts;
+
+      const className = hre.ethers.encodeBytes32String(String(params.equityClass ?? ""));
+      const classNames = await vestingContract.getEquityClassNames();
+      if (!classNames.includes(className)) {
+        throw new Error(`--equity-class ${params.equityClass ?? "(missing)"} is not a defined equity class`);
+      }
+      if ((await vestingContract.getEquityClassPool(className)).retired) {
+        throw new Error(`Equity class ${params.equityClass} is retired`);
+      }
+
+      const [tokenCount] = await vestingContract.getEquityClassDetails(className);
+      const [balance, obligations] = await vestingContract.getSolvency();
+      if (balance < obligations + tokenCount) {
+        throw new Error(`The vesting contract holds ${balance} tokens and owes ${obligations}, so it can't back another ${tokenCount}`);
+      }
+
+      let startTime: number | undefined;
+      if (params.startDate) {
+        startTime = Math.floor(Date.parse(params.startDate) / 1000);
+        const [maxBackdate, maxForwardDate] = await vestingContract.getStartTimeLimits();
+        const now = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+        if (isNaN(startTime)) {
+          throw new Error(`--start-date ${params.startDate} is not a date`);
+        }
+        if (startTime + Number(maxBackdate) < now || startTime > now + Number(maxForwardDate)) {
+          throw new Error(`--start-date must be at most ${maxBackdate} seconds back and ${maxForwardDate} seconds ahead`);
+        }
+      }
+
+      const grantId = await vestingContract.getGrantCount(employee);
+      const { transaction, proposalId } = startTime !== undefined
+        ? await sendOrPropose(contracts, { method: "grantEquityWithStartTime", args: [employee, className, startTime] }, params.propose)
+        : await sendOrPropose(contracts, { method: "grantEquity", args: [employee, className] }, params.propose);
+      return {
+        transactions: [transaction],
+        result: proposalId !== undefined
+          ? { employee, equityClass: params.equityClass, proposed: true, proposalId }
+          : { employee, equityClass: params.equityClass, proposed: false, grantId },
+      };
+    });
+  });
+
+signedTask("request-migration", "Propose moving an employee's grants to a new wallet")
+  .addOptionalParam("from", "The employee's old address")
+  .addOptionalParam("to", "The employee's new address")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, requireAddress, runCommand, sendOrPropose } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("request-migration", params.json, async () => {
+      const from = requireAddress(params.from, "from");
+      const to = requireAddress(params.to, "to");
+      if (from === to) {
+        throw new Error("--to must differ from --from");
+      }
+      const { contracts } = await loadContext(params.keystore);
+      const grantCount = await contracts.vestingContract.getGrantCount(from);
+      if (grantCount === 0n) {
+        throw new Error(`${from} has no equity grants`);
+      }
+
+      // migrations always go through the queue, a different approver runs approve-migration
+      const { transaction, proposalId } = await sendOrPropose(contracts, { method: "migrateGrants", args: [from, to] }, true);
+      return { transactions: [transaction], result: { from, to, grantCount, proposalId } };
+    });
+  });
+
+signedTask("approve-migration", "Approve and execute a requested wallet migration")
+  .addOptionalParam("proposalId", "ID of the migrateGrants proposal", undefined, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, runCommand, summarizeReceipt } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("approve-migration", params.json, async () => {
+      const { PROPOSAL_STATUSES } = await import("../scripts/utils/proposals");
+      const { sendTransaction } = await import("../scripts/utils/transactions");
+      if (!Number.isInteger(params.proposalId) || params.proposalId < 0) {
+        throw new Error(`--proposal-id must be a proposal ID, got ${params.proposalId ?? "nothing"}`);
+      }
+      const { contracts } = await loadContext(params.keystore);
+      const { vestingContract, approvalQueueContract } = contracts;
+      if (!approvalQueueContract) {
+        throw new Error("This deployment has no approval queue. Add one with scripts/deploy.ts first.");
+      }
+
+      if (params.proposalId >= await approvalQueueContract.getProposalCount()) {
+        throw new Error(`Proposal ${params.proposalId} does not exist`);
+      }
+      const proposal = await approvalQueueContract.getProposal(params.proposalId);
+      const call = vestingContract.interface.parseTransaction({ data: proposal.data });
+      if (call?.name !== "migrateGrants") {
+        throw new Error(`Proposal ${params.proposalId} is not a wallet migration`);
+      }
+
+      const transactions: TxSummary[] = [];
+      if (PROPOSAL_STATUSES[Number(proposal.status)] === "Pending") {
+        const approveReceipt = await sendTransaction(approvalQueueContract.approve, [params.proposalId]);
+        transactions.push(await summarizeReceipt(approveReceipt, contracts));
+      }
+      const executeReceipt = await sendTransaction(approvalQueueContract.execute, [params.proposalId]);
+      transactions.push(await summarizeReceipt(executeReceipt, contracts));
+
+      const [from, to] = call.args;
+      return { transactions, result: { proposalId: params.proposalId, from, to, grantCount: await vestingContract.getGrantCount(to) } };
+    });
+  });
+
+signedTask("claim", "Claim vested tokens for the signing account")
+  .addOptionalParam("grantId", "Claim a single grant instead of all of them", undefined, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, runCommand, summarizeReceipt } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("claim", params.json, async () => {
+      const { sendTransaction } = await import("../scripts/utils/transactions");
+      const { contracts } = await loadContext(params.keystore);
+      const receipt = params.grantId !== undefined
+        ? await sendTransaction(contracts.vestingContract.claimGrantVestedTokens, [params.grantId])
+        : await sendTransaction(contracts.vestingContract.claimVestedTokens, []);
+      const transaction = await summarizeReceipt(receipt, contracts);
+      const claimed = transaction.events
+        .filter((event) => event.name === "TokensClaimed")
+        .reduce((total, event) => total + (event.args.amount as bigint), 0n);
+      return { transactions: [transaction], result: { claimed } };
+    });
+  });
+
+signedTask("equity", "Show an employee's grants and claimable tokens")
+  .addOptionalParam("employee", "Employee address, defaults to the signing account")
+  .addOptionalParam("block", "Block number to read at, defaults to the latest")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, requireAddress, runCommand } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("equity", params.json, async () => {
+      const { getEmployeeEquity } = await import("../scripts/utils/equityData");
+      const { signer, contracts } = await loadContext(params.keystore);
+      const employee = params.employee ? requireAddress(params.employee, "employee") : signer.address;
+      const blockTag = parseBlockTag(params.block) ?? await hre.ethers.provider.getBlockNumber();
+      return { result: { blockNumber: blockTag, ...await getEmployeeEquity(contracts.vestingContract, employee, blockTag) } };
+    });
+  });
+
+equityTask("company", "Show company token totals and solvency")
+  .addOptionalParam("block", "Block number to read at, defaults to the latest")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, runCommand } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("company", params.json, async () => {
+      const { getCompanyTotals } = await import("../scripts/utils/equityData");
+      const { contracts } = await loadContext();
+      const blockTag = parseBlockTag(params.block) ?? await hre.ethers.provider.getBlockNumber();
+      return { result: { blockNumber: blockTag, ...await getCompanyTotals(contracts.vestingContract, contracts.tokenContract, blockTag) } };
+    });
+  });
+
+equityTask("classes", "List equity classes with their current terms and pools")
+  .addOptionalParam("block", "Block number to read at, defaults to the latest")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, runCommand } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("classes", params.json, async () => {
+      const { getEquityClasses } = await import("../scripts/utils/equityData");
+      const { contracts } = await loadContext();
+      const blockTag = parseBlockTag(params.block) ?? await hre.ethers.provider.getBlockNumber();
+      return { result: await getEquityClasses(contracts.vestingContract, blockTag) };
+    });
+  });
+
+signedTask("transfer", "Transfer tokens from the signing account")
+  .addOptionalParam("to", "Recipient address")
+  .addOptionalParam("amount", "Amount of tokens to transfer")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, requireAddress, runCommand, summarizeReceipt } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("transfer", params.json, async () => {
+      const { explainTransferRestriction } = await import("../scripts/utils/transferRules");
+      const { sendTransaction } = await import("../scripts/utils/transactions");
+      const to = requireAddress(params.to, "to");
+      if (!/^\d+$/.test(String(params.amount ?? "")) || BigInt(params.amount) === 0n) {
+        throw new Error(`--amount must be a whole number of tokens above zero, got ${params.amount ?? "nothing"}`);
+      }
+      const { signer, contracts } = await loadContext(params.keystore);
+
+      const restriction = await explainTransferRestriction(contracts.tokenContract, signer.address, to);
+      if (restriction) {
+        throw new Error(restriction);
+      }
+      const receipt = await sendTransaction(contracts.tokenContract.transfer, [to, BigInt(params.amount)]);
+      return { transactions: [await summarizeReceipt(receipt, contracts)], result: { from: signer.address, to, amount: BigInt(params.amount) } };
+    });
+  });
+
+signedTask("transfer-ownership", "Start handing VestingContract ownership to a new owner")
+  .addOptionalParam("newOwner", "Address of the new owner, who then runs accept-ownership")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, requireAddress, runCommand, summarizeReceipt } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("transfer-ownership", params.json, async () => {
+      const { sendTransaction } = await import("../scripts/utils/transactions");
+      const newOwner = requireAddress(params.newOwner, "new-owner");
+      const { contracts } = await loadContext(params.keystore);
+      const receipt = await sendTransaction(contracts.vestingContract.transferOwnership, [newOwner]);
+      return { transactions: [await summarizeReceipt(receipt, contracts)], result: { pendingOwner: newOwner } };
+    });
+  });
+
+signedTask("accept-ownership", "Accept a pending VestingContract ownership transfer")
+  .setAction(async (taskArgs, hre) => {
+    const { mergeParams, runCommand, summarizeReceipt } = await import("../scripts/utils/commands");
+    const params = mergeParams(taskArgs, taskArgs.paramsFile);
+    await runCommand("accept-ownership", params.json, async () => {
+      const { sendTransaction } = await import("../scripts/utils/transactions");
+      const { signer, contracts } = await loadContext(params.keystore);
+      const receipt = await sendTransaction(contracts.vestingContract.confirmOwnership, []);
+      return { transactions: [await summarizeReceipt(receipt, contracts)], result: { owner: signer.address } };
+    });
+  });
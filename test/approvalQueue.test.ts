@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+const PROPOSAL_LIFETIME = 7 * 24 * 60 * 60;
+
+async function requireApprovalsFixture() {
+  const fixture = await deployEquityFixture();
+  await fixture.vesting.setApprovalQueue(await fixture.approvalQueue.getAddress(), true);
+  return fixture;
+}
+
+describe("approval queue", function () {
+  it("blocks direct grants and class changes once approvals are required", async function () {
+    const { vesting, approvalQueue, other } = await loadFixture(requireApprovalsFixture);
+
+    await expect(vesting.grantEquity(other.address, ENG))
+      .to.be.revertedWithCustomError(vesting, "ApprovalRequired");
+    await expect(vesting.defineEquityClass(ENG, 2000n, 200, 200, 50))
+      .to.be.revertedWithCustomError(vesting, "ApprovalRequired");
+    await expect(vesting.setApprovalQueue(await approvalQueue.getAddress(), false))
+      .to.be.revertedWithCustomError(vesting, "ApprovalRequired");
+  });
+
+  it("executes a grant once a different approver signs it off", async function () {
+    const { vesting, approvalQueue, admin, other, approver } = await loadFixture(requireApprovalsFixture);
+    const data = vesting.interface.encodeFunctionData("grantEquity", [other.address, ENG]);
+
+    await expect(approvalQueue.propose(data))
+      .to.emit(approvalQueue, "ProposalCreated")
+      .withArgs(0, admin.address, data);
+    await expect(approvalQueue.connect(approver).approve(0))
+      .to.emit(approvalQueue, "ProposalApproved")
+      .withArgs(0, approver.address);
+    await expect(approvalQueue.execute(0))
+      .to.emit(approvalQueue, "ProposalExecuted")
+      .withArgs(0, admin.address);
+
+    expect(await vesting.getGrantCount(other.address)).to.equal(1n);
+    expect((await approvalQueue.getProposal(0)).approver).to.equal(approver.address);
+    await expect(approvalQueue.execute(0))
+      .to.be.revertedWithCustomError(approvalQueue, "InvalidProposalStatus")
+      .withArgs(0, 2);
+  });
+
+  it("rejects approval by the proposer", async function () {
+    const { vesting, approvalQueue, other } = await loadFixture(requireApprovalsFixture);
+    await approvalQueue.propose(vesting.interface.encodeFunctionData("grantEquity", [other.address, ENG]));
+
+    await expect(approvalQueue.approve(0))
+      .to.be.revertedWithCustomError(approvalQueue, "SelfApproval")
+      .withArgs(0);
+    await expect(approvalQueue.execute(0))
+      .to.be.revertedWithCustomError(approvalQueue, "InvalidProposalStatus")
+      .withArgs(0, 0);
+  });
+
+  it("expires proposals that are not approved and executed in time", async function () {
+    const { vesting, approvalQueue, other, approver } = await loadFixture(requireApprovalsFixture);
+    const data = vesting.interface.encodeFunctionData("grantEquity", [other.address, ENG]);
+    await approvalQueue.propose(data);
+    await approvalQueue.propose(data);
+    await approvalQueue.connect(approver).approve(1);
+
+    await time.increase(PROPOSAL_LIFETIME + 1);
+    expect(await approvalQueue.isExpired(0)).to.equal(true);
+    await expect(approvalQueue.connect(approver).approve(0))
+      .to.be.revertedWithCustomError(approvalQueue, "ProposalExpired")
+      .withArgs(0);
+    await expect(approvalQueue.execute(1))
+      .to.be.revertedWithCustomError(approvalQueue, "ProposalExpired")
+      .withArgs(1);
+    expect(await vesting.getGrantCount(other.address)).to.equal(0n);
+  });
+
+  it("refuses to queue actions outside grants and class changes", async function () {
+    const { vesting, approvalQueue, employee } = await loadFixture(requireApprovalsFixture);
+    const data = vesting.interface.encodeFunctionData("terminateEmployee", [employee.address, 1]);
+
+    await expect(approvalQueue.propose(data))
+      .to.be.revertedWithCustomError(approvalQueue, "UnsupportedAction")
+      .withArgs(data.slice(0, 10));
+  });
+});
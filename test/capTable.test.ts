@@ -0,0 +1,24 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { buildCapTable } from "../scripts/utils/capTable";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("cap table", function () {
+  it("reads claimed tokens from the grants and keeps the vesting start apart from the grant time", async function () {
+    const { vesting, deploymentBlock, employee, other } = await loadFixture(deployEquityFixture);
+    await vesting.setStartTimeLimits(1000, 0);
+    const startTime = await time.latest() - 500;
+    await vesting.grantEquityWithStartTime(other.address, ENG, startTime);
+    const grantTime = await time.latest();
+    await vesting.connect(other).claimGrantVestedTokens(0);
+
+    const capTable = await buildCapTable(vesting, deploymentBlock);
+    const row = capTable.rows.find((entry) => entry.employee === other.address)!;
+
+    expect(row.claimedTokens).to.equal((await vesting.getGrant(other.address, 0)).claimedTokens);
+    expect(row.claimedTokens).to.be.greaterThan(0n);
+    expect(row.startTime).to.equal(startTime);
+    expect(row.grantTime).to.equal(grantTime);
+    expect(capTable.rows.find((entry) => entry.employee === employee.address)!.claimedTokens).to.equal(0n);
+  });
+});
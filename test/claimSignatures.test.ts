@@ -0,0 +1,40 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { signClaimRequest } from "../scripts/utils/claimSignatures";
+import { deployEquityFixture } from "./fixtures";
+
+describe("signed claims", function () {
+  it("pays a relayed claim to the employee and rejects replaying it", async function () {
+    const { token, vesting, employee, other } = await loadFixture(deployEquityFixture);
+    await time.increase(150);
+    const deadline = (await time.latest()) + 3600;
+    const claim = await signClaimRequest(employee, vesting, deadline);
+
+    await expect(vesting.connect(other).claimVestedTokensWithSignature(employee.address, deadline, claim.signature))
+      .to.emit(vesting, "ClaimRelayed")
+      .withArgs(employee.address, other.address, 0);
+    expect(await token.balanceOf(employee.address)).to.equal(250n);
+    expect(await token.balanceOf(other.address)).to.equal(0n);
+    expect(await vesting.getClaimNonce(employee.address)).to.equal(1n);
+
+    await time.increase(100);
+    await expect(vesting.connect(other).claimVestedTokensWithSignature(employee.address, deadline, claim.signature))
+      .to.be.revertedWithCustomError(vesting, "InvalidSignature");
+  });
+
+  it("rejects expired requests and requests signed by someone else", async function () {
+    const { vesting, employee, other } = await loadFixture(deployEquityFixture);
+    await time.increase(150);
+    const now = await time.latest();
+
+    const expired = await signClaimRequest(employee, vesting, now);
+    await expect(vesting.connect(other).claimVestedTokensWithSignature(employee.address, now, expired.signature))
+      .to.be.revertedWithCustomError(vesting, "SignatureExpired")
+      .withArgs(now);
+
+    const forged = await signClaimRequest(other, vesting, now + 3600);
+    await expect(vesting.connect(other).claimVestedTokensWithSignature(employee.address, now + 3600, forged.signature))
+      .to.be.revertedWithCustomError(vesting, "InvalidSignature");
+    expect(await vesting.getClaimNonce(employee.address)).to.equal(0n);
+  });
+});
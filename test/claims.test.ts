@@ -0,0 +1,29 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { getClaimedAmount } from "../scripts/utils/claimSignatures";
+import { sendTransaction } from "../scripts/utils/transactions";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("claiming vested tokens", function () {
+  it("reports the amount paid out across grants from the receipt", async function () {
+    const { token, vesting, employee } = await loadFixture(deployEquityFixture);
+    await vesting.grantEquity(employee.address, ENG);
+    await time.increase(150);
+
+    const balanceBefore = await token.balanceOf(employee.address);
+    const receipt = await sendTransaction(vesting.connect(employee).claimVestedTokens, []);
+    const claimedAmount = getClaimedAmount(vesting, receipt);
+
+    expect(claimedAmount).to.equal(500n);
+    expect(await token.balanceOf(employee.address)).to.equal(balanceBefore + claimedAmount);
+  });
+
+  it("counts claimable tokens net of earlier claims", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    await time.increase(150);
+    await vesting.connect(employee).claimVestedTokens();
+
+    expect(await vesting.getClaimedTokens(employee.address)).to.equal(250n);
+    expect(await vesting.calculateVestedTokens(employee.address)).to.equal(0n);
+  });
+});
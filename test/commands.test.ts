@@ -0,0 +1,27 @@
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { sendOrPropose } from "../scripts/utils/commands";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("sendOrPropose", function () {
+  it("returns the ID of the proposal its transaction created", async function () {
+    const { vesting, approvalQueue, contracts, employee, other } = await loadFixture(deployEquityFixture);
+    await approvalQueue.propose(vesting.interface.encodeFunctionData("grantEquity", [employee.address, ENG]));
+
+    const { proposalId } = await sendOrPropose(contracts, { method: "grantEquity", args: [other.address, ENG] }, true);
+
+    expect(proposalId).to.equal(1n);
+    expect((await approvalQueue.getProposal(1n)).data)
+      .to.equal(vesting.interface.encodeFunctionData("grantEquity", [other.address, ENG]));
+  });
+
+  it("sends directly when approvals are not required", async function () {
+    const { vesting, approvalQueue, contracts, other } = await loadFixture(deployEquityFixture);
+
+    const { proposalId } = await sendOrPropose(contracts, { method: "grantEquity", args: [other.address, ENG] });
+
+    expect(proposalId).to.equal(undefined);
+    expect(await vesting.getGrantCount(other.address)).to.equal(1n);
+    expect(await approvalQueue.getProposalCount()).to.equal(0n);
+  });
+});
@@ -0,0 +1,34 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("batch distribution", function () {
+  it("pays out claimable tokens and skips employees with nothing to claim", async function () {
+    const { token, vesting, employee, other, approver } = await loadFixture(deployEquityFixture);
+    await time.increase(150);
+    // still inside the cliff when the batch runs
+    await vesting.grantEquity(other.address, ENG);
+
+    const employees = [employee.address, other.address, approver.address];
+    expect(await vesting.distributeVestedTokens.staticCall(employees)).to.equal(250n);
+    await expect(vesting.distributeVestedTokens(employees))
+      .to.emit(vesting, "VestedTokensDistributed")
+      .withArgs(employee.address, 250n);
+
+    expect(await token.balanceOf(employee.address)).to.equal(250n);
+    expect(await token.balanceOf(other.address)).to.equal(0n);
+    expect(await vesting.getClaimedTokens(employee.address)).to.equal(250n);
+  });
+
+  it("limits the batch size and who can run it", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    const employees = Array.from({ length: 101 }, () => ethers.Wallet.createRandom().address);
+
+    await expect(vesting.distributeVestedTokens(employees))
+      .to.be.revertedWithCustomError(vesting, "BatchTooLarge")
+      .withArgs(101, 100);
+    await expect(vesting.connect(employee).distributeVestedTokens([employee.address]))
+      .to.be.revertedWith("Only granter can perform this action");
+  });
+});
@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { seedEquityPools } from "../scripts/deploy";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+const OPS = ethers.encodeBytes32String("Ops");
+
+describe("equity classes", function () {
+  it("keeps existing grants on the terms they were issued under when a class is redefined", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+
+    await expect(vesting.defineEquityClass(ENG, 2000n, 200, 200, 50))
+      .to.emit(vesting, "EquityClassVersioned")
+      .withArgs(ENG, 1);
+    await vesting.grantEquity(employee.address, ENG);
+
+    expect(await vesting.getGrantTermsVersion(employee.address, 0)).to.equal(0n);
+    expect(await vesting.getGrantTermsVersion(employee.address, 1)).to.equal(1n);
+    expect((await vesting.getGrant(employee.address, 1)).totalTokens).to.equal(2000n);
+    expect((await vesting.getEquityClassTerms(ENG, 0))[0].tokenCount).to.equal(1000n);
+    await expect(vesting.getEquityClassTerms(ENG, 2))
+      .to.be.revertedWithCustomError(vesting, "InvalidTermsVersion")
+      .withArgs(ENG, 2);
+
+    // the first grant is past its 100 second cliff, the second still has a 200 second one
+    await time.increase(150);
+    expect(await vesting.calculateGrantVestedTokens(employee.address, 0)).to.equal(250n);
+    expect(await vesting.calculateGrantVestedTokens(employee.address, 1)).to.equal(0n);
+  });
+
+  it("blocks grants beyond the pool budget", async function () {
+    const { vesting, other } = await loadFixture(deployEquityFixture);
+
+    await expect(vesting.setEquityClassBudget(ENG, 999n))
+      .to.be.revertedWithCustomError(vesting, "InvalidEquityClass")
+      .withArgs("Budget below allocated tokens");
+
+    await vesting.setEquityClassBudget(ENG, 1500n);
+    await expect(vesting.grantEquity(other.address, ENG))
+      .to.be.revertedWithCustomError(vesting, "PoolBudgetExceeded")
+      .withArgs(ENG, 1000n, 500n);
+
+    await vesting.setEquityClassBudget(ENG, 2000n);
+    await vesting.grantEquity(other.address, ENG);
+    expect((await vesting.getEquityClassPool(ENG)).allocated).to.equal(2000n);
+  });
+
+  it("blocks new grants and terms for a retired class while existing grants keep vesting", async function () {
+    const { vesting, employee, other } = await loadFixture(deployEquityFixture);
+
+    await expect(vesting.retireEquityClass(ENG)).to.emit(vesting, "EquityClassRetired").withArgs(ENG);
+
+    await expect(vesting.grantEquity(other.address, ENG))
+      .to.be.revertedWithCustomError(vesting, "RetiredEquityClass")
+      .withArgs(ENG);
+    await expect(vesting.defineEquityClass(ENG, 2000n, 200, 200, 50))
+      .to.be.revertedWithCustomError(vesting, "RetiredEquityClass")
+      .withArgs(ENG);
+    await expect(vesting.retireEquityClass(ENG))
+      .to.be.revertedWithCustomError(vesting, "RetiredEquityClass");
+
+    await time.increase(150);
+    await vesting.connect(employee).claimVestedTokens();
+    expect(await vesting.getClaimedTokens(employee.address)).to.equal(250n);
+  });
+
+  it("seeds pools through the approval queue when approvals are required", async function () {
+    const { vesting, approvalQueue, contracts, deploymentBlock, approver } = await loadFixture(deployEquityFixture);
+    await vesting.defineEquityClass(OPS, 500n, 100, 100, 25);
+    await vesting.setApprovalQueue(await approvalQueue.getAddress(), true);
+
+    await expect(vesting.seedEquityPool(OPS, 5000n, 0n)).to.be.revertedWithCustomError(vesting, "ApprovalRequired");
+
+    await seedEquityPools(contracts, deploymentBlock, { Ops: 5000 });
+    expect((await vesting.getEquityClassPool(OPS)).budget).to.equal(0n);
+
+    await approvalQueue.connect(approver).approve(0);
+    await approvalQueue.connect(approver).execute(0);
+    const pool = await vesting.getEquityClassPool(OPS);
+    expect([pool.budget, pool.allocated]).to.deep.equal([5000n, 0n]);
+  });
+});
@@ -0,0 +1,57 @@
+import { ethers, upgrades } from "hardhat";
+import type { AccessControlContract, ApprovalQueueContract, TokenContract, VestingContract } from "../typechain-types";
+import type { EquityContracts } from "../scripts/utils/commands";
+
+export const ENG = ethers.encodeBytes32String("Eng");
+
+// contracts wired the way scripts/deploy.ts sets them up, with a funded Eng class and no grants yet
+export async function deployContractsFixture() {
+  const [admin, employee, other, approver] = await ethers.getSigners();
+  const deploymentBlock = await ethers.provider.getBlockNumber();
+
+  const accessControl = await upgrades.deployProxy(
+    await ethers.getContractFactory("AccessControlContract"),
+    [],
+    { kind: "transparent" }
+  ) as unknown as AccessControlContract;
+  const accessControlAddress = await accessControl.getAddress();
+  const token = await upgrades.deployProxy(
+    await ethers.getContractFactory("TokenContract"),
+    ["Equity Token", "EQT", accessControlAddress],
+    { kind: "transparent" }
+  ) as unknown as TokenContract;
+  const vesting = await upgrades.deployProxy(
+    await ethers.getContractFactory("VestingContract"),
+    [],
+    { kind: "transparent", constructorArgs: [await token.getAddress(), accessControlAddress] }
+  ) as unknown as VestingContract;
+  const approvalQueue = await upgrades.deployProxy(
+    await ethers.getContractFactory("ApprovalQueueContract"),
+    [7 * 24 * 60 * 60],
+    { kind: "transparent", constructorArgs: [await vesting.getAddress(), accessControlAddress] }
+  ) as unknown as ApprovalQueueContract;
+
+  await token.setVestingContract(await vesting.getAddress());
+  await accessControl.grantRole(await accessControl.ADMIN_ROLE(), await approvalQueue.getAddress());
+  await accessControl.grantRole(await accessControl.GRANTER_ROLE(), await approvalQueue.getAddress());
+  await vesting.setApprovalQueue(await approvalQueue.getAddress(), false);
+  await accessControl.grantRole(await accessControl.APPROVER_ROLE(), approver.address);
+  await token.mint(await vesting.getAddress(), 100000n);
+  await vesting.defineEquityClass(ENG, 1000n, 100, 100, 25);
+  await vesting.setEquityClassBudget(ENG, 100000n);
+
+  const contracts: EquityContracts = {
+    vestingContract: vesting,
+    tokenContract: token,
+    accessControlContract: accessControl,
+    approvalQueueContract: approvalQueue,
+  };
+  return { accessControl, token, vesting, approvalQueue, contracts, deploymentBlock, admin, employee, other, approver };
+}
+
+// one Eng grant to the employee
+export async function deployEquityFixture() {
+  const fixture = await deployContractsFixture();
+  await fixture.vesting.grantEquity(fixture.employee.address, ENG);
+  return fixture;
+}
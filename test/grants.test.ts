@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { AccessControlContract, ApprovalQueueContract, TokenContract, VestingContract } from "../typechain-types";
+import { buildCapTable } from "../scripts/utils/capTable";
+import { findClaimableEmployees } from "../scripts/utils/distribution";
+import { loadGrants } from "../scripts/utils/grants";
+
+const ENG = ethers.encodeBytes32String("Eng");
+
+async function deployFixture() {
+  const [admin, employee, newWallet, approver] = await ethers.getSigners();
+  const deploymentBlock = await ethers.provider.getBlockNumber();
+
+  const accessControl = await upgrades.deployProxy(
+    await ethers.getContractFactory("AccessControlContract"),
+    [],
+    { kind: "transparent" }
+  ) as unknown as AccessControlContract;
+  const accessControlAddress = await accessControl.getAddress();
+  const token = await upgrades.deployProxy(
+    await ethers.getContractFactory("TokenContract"),
+    ["Equity Token", "EQT", accessControlAddress],
+    { kind: "transparent" }
+  ) as unknown as TokenContract;
+  const vesting = await upgrades.deployProxy(
+    await ethers.getContractFactory("VestingContract"),
+    [],
+    { kind: "transparent", constructorArgs: [await token.getAddress(), accessControlAddress] }
+  ) as unknown as VestingContract;
+  const queue = await upgrades.deployProxy(
+    await ethers.getContractFactory("ApprovalQueueContract"),
+    [7 * 24 * 60 * 60],
+    { kind: "transparent", constructorArgs: [await vesting.getAddress(), accessControlAddress] }
+  ) as unknown as ApprovalQueueContract;
+
+  await token.setVestingContract(await vesting.getAddress());
+  await vesting.setApprovalQueue(await queue.getAddress(), false);
+  await accessControl.grantRole(await accessControl.APPROVER_ROLE(), approver.address);
+  await token.mint(await vesting.getAddress(), 100000n);
+
+  await vesting.defineEquityClass(ENG, 1000n, 100, 100, 25);
+  await vesting.setEquityClassBudget(ENG, 100000n);
+  await vesting.grantEquity(employee.address, ENG);
+  await vesting.grantEquity(employee.address, ENG);
+  await time.increase(150);
+  await vesting.connect(employee).claimGrantVestedTokens(0);
+
+  return { vesting, queue, deploymentBlock, admin, employee, newWallet, approver };
+}
+
+async function migrateFixture() {
+  const fixture = await deployFixture();
+  const { vesting, queue, employee, newWallet, approver } = fixture;
+  await queue.propose(vesting.interface.encodeFunctionData("migrateGrants", [employee.address, newWallet.address]));
+  await queue.connect(approver).approve(0);
+  await queue.connect(approver).execute(0);
+  return fixture;
+}
+
+describe("grant enumeration after a wallet recovery", function () {
+  it("builds the cap table under the new wallet, claims from the old one included", async function () {
+    const { vesting, deploymentBlock, employee, newWallet } = await loadFixture(migrateFixture);
+
+    const capTable = await buildCapTable(vesting, deploymentBlock);
+
+    expect(capTable.rows.map((row) => [row.employee, row.grantId])).to.deep.equal([
+      [newWallet.address, 0],
+      [newWallet.address, 1],
+    ]);
+    expect(capTable.rows[0].claimedTokens).to.equal(250n);
+    expect(capTable.rows[0].vestedTokens).to.equal(250n + await vesting.calculateGrantVestedTokens(newWallet.address, 0));
+    expect(capTable.rows.some((row) => row.employee === employee.address)).to.equal(false);
+  });
+
+  it("finds the new wallet for distribution", async function () {
+    const { vesting, deploymentBlock, newWallet } = await loadFixture(migrateFixture);
+
+    const claimable = await findClaimableEmployees(vesting, deploymentBlock);
+
+    expect(claimable.map((entry) => entry.employee)).to.deep.equal([newWallet.address]);
+    expect(claimable[0].claimableTokens).to.equal(await vesting.calculateVestedTokens(newWallet.address));
+  });
+
+  it("maps the old wallet to the new one", async function () {
+    const { vesting, deploymentBlock, employee, newWallet } = await loadFixture(migrateFixture);
+
+    const grantIndex = await loadGrants(vesting, deploymentBlock);
+
+    expect(grantIndex.holderOf(employee.address)).to.equal(newWallet.address);
+    expect(grantIndex.holderOf(newWallet.address)).to.equal(newWallet.address);
+  });
+});
@@ -0,0 +1,18 @@
+import { expect } from "chai";
+import { identityChoices } from "../scripts/utils/keystore";
+
+describe("identity selection", function () {
+  const identities = [{ label: "alice", address: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8", file: "keystores/alice.json" }];
+
+  it("leaves Back out at startup", function () {
+    const choices = identityChoices(identities, "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266", false);
+
+    expect(choices.map((choice) => choice.value)).to.deep.equal(["network", "keystores/alice.json", "add"]);
+  });
+
+  it("offers Back when switching from a menu", function () {
+    const choices = identityChoices(identities, undefined, true);
+
+    expect(choices.map((choice) => choice.value)).to.deep.equal(["keystores/alice.json", "add", "back"]);
+  });
+});
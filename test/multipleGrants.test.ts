@@ -0,0 +1,32 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("multiple grants", function () {
+  it("numbers each grant and vests and claims them separately", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    await time.increase(100);
+    await expect(vesting.grantEquity(employee.address, ENG))
+      .to.emit(vesting, "EquityGranted")
+      .withArgs(employee.address, ENG, 1, await time.latest() + 1);
+    await time.increase(50);
+
+    expect(await vesting.getGrantCount(employee.address)).to.equal(2n);
+    expect(await vesting.calculateGrantVestedTokens(employee.address, 0)).to.equal(250n);
+    expect(await vesting.calculateGrantVestedTokens(employee.address, 1)).to.equal(0n);
+
+    await vesting.connect(employee).claimGrantVestedTokens(0);
+    expect((await vesting.getGrant(employee.address, 0)).claimedTokens).to.equal(250n);
+    expect((await vesting.getGrant(employee.address, 1)).claimedTokens).to.equal(0n);
+    await expect(vesting.connect(employee).claimGrantVestedTokens(1))
+      .to.be.revertedWithCustomError(vesting, "CliffPeriodNotMet");
+  });
+
+  it("rejects grant IDs the employee doesn't have", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+
+    await expect(vesting.getGrant(employee.address, 1))
+      .to.be.revertedWithCustomError(vesting, "InvalidGrantId")
+      .withArgs(employee.address, 1);
+  });
+});
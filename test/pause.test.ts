@@ -0,0 +1,46 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+const PAUSE_CLAIMS = 1;
+const PAUSE_GRANTS = 2;
+const PAUSE_TRANSFERS = 4;
+
+describe("emergency pause", function () {
+  it("stops only the paused scopes", async function () {
+    const { accessControl, vesting, token, admin, employee, other } = await loadFixture(deployEquityFixture);
+    await time.increase(150);
+
+    await expect(accessControl.pause(PAUSE_CLAIMS))
+      .to.emit(accessControl, "Paused")
+      .withArgs(admin.address, PAUSE_CLAIMS);
+    await expect(vesting.connect(employee).claimVestedTokens())
+      .to.be.revertedWithCustomError(vesting, "ContractPaused")
+      .withArgs(PAUSE_CLAIMS);
+    await vesting.grantEquity(other.address, ENG);
+
+    await accessControl.pause(PAUSE_GRANTS | PAUSE_TRANSFERS);
+    await expect(vesting.grantEquity(other.address, ENG))
+      .to.be.revertedWithCustomError(vesting, "ContractPaused")
+      .withArgs(PAUSE_GRANTS);
+    await token.mint(admin.address, 100n);
+    await expect(token.transfer(other.address, 100n))
+      .to.be.revertedWithCustomError(token, "ContractPaused")
+      .withArgs(PAUSE_TRANSFERS);
+
+    await accessControl.unpause(PAUSE_CLAIMS | PAUSE_TRANSFERS);
+    await vesting.connect(employee).claimVestedTokens();
+    expect(await token.balanceOf(employee.address)).to.equal(250n);
+    expect(await accessControl.isPaused(PAUSE_GRANTS)).to.equal(true);
+  });
+
+  it("only lets pausers pause, and only known scopes", async function () {
+    const { accessControl, other } = await loadFixture(deployEquityFixture);
+
+    await expect(accessControl.connect(other).pause(PAUSE_CLAIMS))
+      .to.be.revertedWithCustomError(accessControl, "AccessControlUnauthorizedAccount");
+    await expect(accessControl.pause(8))
+      .to.be.revertedWithCustomError(accessControl, "InvalidPauseScope")
+      .withArgs(8);
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, upgrades } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { LEGACY_DEPLOYMENT_FILE, REGISTRY_FILE, loadDeployment, loadRegistry } from "../scripts/utils/registry";
+import { deployEquityFixture } from "./fixtures";
+
+describe("deployment registry", function () {
+  const cwd = process.cwd();
+
+  beforeEach(function () {
+    process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), "registry-")));
+  });
+
+  afterEach(function () {
+    process.chdir(cwd);
+  });
+
+  it("imports deployment.json once, reading implementations and the deployment block from the chain", async function () {
+    const { accessControl, token, vesting, admin } = await loadFixture(deployEquityFixture);
+    const accessControlAddress = await accessControl.getAddress();
+    fs.writeFileSync(LEGACY_DEPLOYMENT_FILE, JSON.stringify({
+      tokenContract: await token.getAddress(),
+      vestingContract: await vesting.getAddress(),
+      accessControlContract: accessControlAddress,
+      deploymentTime: "2024-11-01T00:00:00.000Z",
+      network: "hardhat",
+    }));
+
+    const deployment = await loadDeployment();
+
+    expect(deployment.chainId).to.equal(31337);
+    expect(deployment.deployer).to.equal(admin.address);
+    expect(deployment.contracts.vestingContract.implementation)
+      .to.equal(await upgrades.erc1967.getImplementationAddress(await vesting.getAddress()));
+    expect(await ethers.provider.getCode(accessControlAddress, deployment.deploymentBlock)).to.not.equal("0x");
+    expect(await ethers.provider.getCode(accessControlAddress, deployment.deploymentBlock - 1)).to.equal("0x");
+    expect(loadRegistry()["31337"]).to.deep.equal(deployment);
+    expect(fs.existsSync(REGISTRY_FILE)).to.equal(true);
+  });
+
+  it("leaves deployment.json alone when its contracts aren't on this chain", async function () {
+    fs.writeFileSync(LEGACY_DEPLOYMENT_FILE, JSON.stringify({
+      tokenContract: ethers.Wallet.createRandom().address,
+      vestingContract: ethers.Wallet.createRandom().address,
+      accessControlContract: ethers.Wallet.createRandom().address,
+      deploymentTime: "2024-11-01T00:00:00.000Z",
+      network: "amoy",
+    }));
+
+    await expect(loadDeployment()).to.be.rejectedWith("No deployment recorded for chain 31337");
+    expect(fs.existsSync(REGISTRY_FILE)).to.equal(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { submitGrants, validateRoster } from "../scripts/utils/roster";
+import { deployEquityFixture } from "./fixtures";
+
+describe("roster import", function () {
+  it("warns about existing grants instead of rejecting the row", async function () {
+    const { vesting, employee, other } = await loadFixture(deployEquityFixture);
+
+    const validated = await validateRoster(vesting, [
+      { row: 2, address: employee.address, equityClass: "Eng" },
+      { row: 3, address: other.address, equityClass: "Eng" },
+    ]);
+
+    expect(validated.map((entry) => entry.errors)).to.deep.equal([[], []]);
+    expect(validated.map((entry) => entry.warnings)).to.deep.equal([["Already has 1 grant(s)"], []]);
+  });
+
+  it("still rejects unknown classes and duplicate addresses", async function () {
+    const { vesting, other } = await loadFixture(deployEquityFixture);
+
+    const validated = await validateRoster(vesting, [
+      { row: 2, address: other.address, equityClass: "Sales" },
+      { row: 3, address: other.address, equityClass: "Eng" },
+    ]);
+
+    expect(validated[0].errors).to.deep.equal(["Unknown equity class 'Sales'"]);
+    expect(validated[1].errors).to.deep.equal(["Duplicate address in roster"]);
+  });
+
+  it("turns rows into proposals when approvals are required", async function () {
+    const { vesting, approvalQueue, contracts, other, approver } = await loadFixture(deployEquityFixture);
+    await vesting.setApprovalQueue(await approvalQueue.getAddress(), true);
+
+    const validated = await validateRoster(vesting, [{ row: 2, address: other.address, equityClass: "Eng" }]);
+    const results = await submitGrants(contracts, validated);
+
+    expect(results.map((result) => [result.status, result.proposalId])).to.deep.equal([["proposed", "0"]]);
+    expect(await vesting.getGrantCount(other.address)).to.equal(0n);
+
+    await approvalQueue.connect(approver).approve(0);
+    await approvalQueue.connect(approver).execute(0);
+    expect(await vesting.getGrantCount(other.address)).to.equal(1n);
+  });
+
+  it("grants rows directly when approvals are not required", async function () {
+    const { vesting, approvalQueue, contracts, other } = await loadFixture(deployEquityFixture);
+
+    const validated = await validateRoster(vesting, [{ row: 2, address: other.address, equityClass: "Eng" }]);
+    const results = await submitGrants(contracts, validated);
+
+    expect(results.map((result) => result.status)).to.deep.equal(["granted"]);
+    expect(await vesting.getGrantCount(other.address)).to.equal(1n);
+    expect(await approvalQueue.getProposalCount()).to.equal(0n);
+  });
+});
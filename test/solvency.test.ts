@@ -0,0 +1,30 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployEquityFixture } from "./fixtures";
+
+const FOUNDER = ethers.encodeBytes32String("Founder");
+
+describe("company accounting", function () {
+  it("tracks granted, claimed and locked tokens", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    await time.increase(150);
+    await vesting.connect(employee).claimVestedTokens();
+
+    expect(await vesting.getTotalTokensGranted()).to.equal(1000n);
+    expect(await vesting.getTotalTokensReleasedToEmployees()).to.equal(250n);
+    expect(await vesting.getTotalTokensLockedForEmployees()).to.equal(750n);
+    expect(await vesting.getSolvency()).to.deep.equal([99750n, 750n]);
+  });
+
+  it("blocks grants the contract's balance can't cover", async function () {
+    const { vesting, other } = await loadFixture(deployEquityFixture);
+    await vesting.defineEquityClass(FOUNDER, 99500n, 100, 100, 25);
+    await vesting.setEquityClassBudget(FOUNDER, 99500n);
+
+    await expect(vesting.grantEquity(other.address, FOUNDER))
+      .to.be.revertedWithCustomError(vesting, "InsufficientBalance")
+      .withArgs(100500n, 100000n);
+    expect((await vesting.getEquityClassPool(FOUNDER)).allocated).to.equal(0n);
+  });
+});
@@ -0,0 +1,61 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("grant start dates", function () {
+  it("vests from a backdated or future start within the configured limits", async function () {
+    const { vesting, other } = await loadFixture(deployEquityFixture);
+    await vesting.setStartTimeLimits(1000, 1000);
+    // the grant is mined one second after the latest block
+    const now = BigInt(await time.latest()) + 1n;
+
+    await expect(vesting.grantEquityWithStartTime(other.address, ENG, now - 150n))
+      .to.emit(vesting, "GrantStartTimeSet")
+      .withArgs(other.address, 0, now - 150n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 0)).to.equal(250n);
+
+    await vesting.grantEquityWithStartTime(other.address, ENG, now + 500n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 1)).to.equal(0n);
+    expect(await vesting.getNextGrantVestingAmount(other.address, 1)).to.deep.equal([250n, now + 600n]);
+  });
+
+  it("rejects start dates outside the limits", async function () {
+    const { vesting, other } = await loadFixture(deployEquityFixture);
+    await vesting.setStartTimeLimits(1000, 1000);
+    const now = BigInt(await time.latest());
+
+    await expect(vesting.grantEquityWithStartTime(other.address, ENG, now - 2000n))
+      .to.be.revertedWithCustomError(vesting, "InvalidStartTime")
+      .withArgs(now - 2000n);
+    await expect(vesting.grantEquityWithStartTime(other.address, ENG, now + 2000n))
+      .to.be.revertedWithCustomError(vesting, "InvalidStartTime")
+      .withArgs(now + 2000n);
+  });
+});
+
+describe("acceleration", function () {
+  it("vests a share of the unvested tokens at once, cliff included", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+
+    await expect(vesting.accelerateGrants([employee.address], [0], 5000))
+      .to.emit(vesting, "VestingAccelerated")
+      .withArgs(employee.address, 0, 500n, 5000);
+    expect(await vesting.getGrantAcceleratedTokens(employee.address, 0)).to.equal(500n);
+
+    await vesting.connect(employee).claimVestedTokens();
+    expect(await vesting.getClaimedTokens(employee.address)).to.equal(500n);
+
+    // scheduled vesting adds on top until the grant is fully vested
+    await time.increase(150);
+    expect(await vesting.calculateVestedTokens(employee.address)).to.equal(250n);
+  });
+
+  it("rejects accelerating a terminated grant", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    await vesting.terminateEmployee(employee.address, await time.latest());
+
+    await expect(vesting.accelerateGrants([employee.address], [0], 5000))
+      .to.be.revertedWithCustomError(vesting, "EmployeeAlreadyTerminated")
+      .withArgs(employee.address);
+  });
+});
@@ -0,0 +1,52 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("terminating an employee", function () {
+  it("forfeits the unvested tokens and releases them to the pool", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    const { startTime } = await vesting.getGrant(employee.address, 0);
+    await time.increase(150);
+    const terminationTime = startTime + 150n;
+
+    const [vestedTokens, forfeitedTokens] = await vesting.previewTermination(employee.address, terminationTime);
+    expect([vestedTokens, forfeitedTokens]).to.deep.equal([250n, 750n]);
+
+    await expect(vesting.terminateEmployee(employee.address, terminationTime))
+      .to.emit(vesting, "EmployeeTerminated")
+      .withArgs(employee.address, terminationTime, 250n, 750n);
+
+    expect((await vesting.getGrant(employee.address, 0)).totalTokens).to.equal(250n);
+    expect((await vesting.getEquityClassPool(ENG)).allocated).to.equal(250n);
+    expect(await vesting.getTotalTokensGranted()).to.equal(250n);
+
+    // vesting stops at termination, so only the vested part can still be claimed
+    await time.increase(1000);
+    expect(await vesting.calculateVestedTokens(employee.address)).to.equal(250n);
+  });
+
+  it("keeps tokens already claimed when terminating before they vested", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    const { startTime } = await vesting.getGrant(employee.address, 0);
+    await time.increase(250);
+    await vesting.connect(employee).claimVestedTokens();
+
+    await vesting.terminateEmployee(employee.address, startTime + 150n);
+    const grant = await vesting.getGrant(employee.address, 0);
+    expect([grant.totalTokens, grant.claimedTokens]).to.deep.equal([500n, 500n]);
+    expect((await vesting.getEquityClassPool(ENG)).allocated).to.equal(500n);
+  });
+
+  it("rejects a future termination time and a second termination", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+    const now = BigInt(await time.latest());
+
+    await expect(vesting.terminateEmployee(employee.address, now + 100n))
+      .to.be.revertedWithCustomError(vesting, "InvalidTerminationTime");
+
+    await vesting.terminateEmployee(employee.address, now);
+    await expect(vesting.terminateEmployee(employee.address, now))
+      .to.be.revertedWithCustomError(vesting, "EmployeeAlreadyTerminated")
+      .withArgs(employee.address);
+  });
+});
@@ -0,0 +1,20 @@
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { describeError, sendTransaction } from "../scripts/utils/transactions";
+import { deployEquityFixture } from "./fixtures";
+
+describe("transaction errors", function () {
+  it("explains decoded contract errors", async function () {
+    const { vesting, employee } = await loadFixture(deployEquityFixture);
+
+    await expect(sendTransaction(vesting.connect(employee).claimVestedTokens, []))
+      .to.be.rejectedWith(/^Cliff period not met yet\. Tokens start vesting in /);
+  });
+
+  it("prefers the provider's short message and falls back to the error message", function () {
+    expect(describeError({ shortMessage: "could not coalesce error", message: "could not coalesce error (info={...})" }))
+      .to.equal("could not coalesce error");
+    expect(describeError(new Error("network down"))).to.equal("network down");
+    expect(describeError("timeout")).to.equal("timeout");
+  });
+});
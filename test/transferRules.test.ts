@@ -0,0 +1,64 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { explainTransferRestriction } from "../scripts/utils/transferRules";
+import { deployEquityFixture } from "./fixtures";
+
+const LOCKUP_PERIOD = 1000;
+
+async function restrictedTransfersFixture() {
+  const fixture = await deployEquityFixture();
+  const { token, vesting, employee } = fixture;
+  await token.setTransferRestrictionsEnabled(true);
+  await token.setTransferExempt(await vesting.getAddress(), true);
+  await token.setLockupPeriod(employee.address, LOCKUP_PERIOD);
+  return fixture;
+}
+
+describe("transfer restrictions", function () {
+  it("locks claimed tokens up and then only allows transfers between allowlisted holders", async function () {
+    const { token, vesting, employee, other } = await loadFixture(restrictedTransfersFixture);
+    await time.increase(150);
+
+    await expect(vesting.connect(employee).claimVestedTokens()).to.emit(token, "TokensLockedUp");
+    const lockedUntil = await token.lockedUntil(employee.address);
+    await expect(token.connect(employee).transfer(other.address, 100n))
+      .to.be.revertedWithCustomError(token, "TokensLocked")
+      .withArgs(employee.address, lockedUntil);
+
+    await time.increaseTo(lockedUntil);
+    await expect(token.connect(employee).transfer(other.address, 100n))
+      .to.be.revertedWithCustomError(token, "SenderNotAllowlisted")
+      .withArgs(employee.address);
+
+    await token.setAllowlisted([employee.address], true);
+    await expect(token.connect(employee).transfer(other.address, 100n))
+      .to.be.revertedWithCustomError(token, "RecipientNotAllowlisted")
+      .withArgs(other.address);
+
+    await token.setAllowlisted([other.address], true);
+    await token.connect(employee).transfer(other.address, 100n);
+    expect(await token.balanceOf(other.address)).to.equal(100n);
+  });
+
+  it("lets exempt accounts send and receive outside the allowlist", async function () {
+    const { token, admin, employee, other } = await loadFixture(restrictedTransfersFixture);
+    await token.mint(other.address, 100n);
+    await token.setTransferExempt(admin.address, true);
+
+    await token.connect(other).transfer(admin.address, 40n);
+    await token.transfer(employee.address, 40n);
+    expect(await token.balanceOf(employee.address)).to.equal(40n);
+    // tokens from the treasury start the recipient's lockup too
+    expect(await token.lockedUntil(employee.address)).to.equal(BigInt(await time.latest()) + BigInt(LOCKUP_PERIOD));
+  });
+
+  it("explains why a transfer would be blocked", async function () {
+    const { token, employee, other } = await loadFixture(restrictedTransfersFixture);
+
+    expect(await explainTransferRestriction(token, employee.address, other.address))
+      .to.equal(`${employee.address} is not an approved holder, so it can't send tokens. Ask an admin to allowlist it.`);
+
+    await token.setTransferRestrictionsEnabled(false);
+    expect(await explainTransferRestriction(token, employee.address, other.address)).to.equal(undefined);
+  });
+});
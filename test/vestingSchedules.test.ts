@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployEquityFixture } from "./fixtures";
+
+const LINEAR = ethers.encodeBytes32String("Linear");
+const CUSTOM = ethers.encodeBytes32String("Custom");
+
+describe("vesting schedules", function () {
+  it("vests a linear grant every second after the cliff", async function () {
+    const { vesting, other } = await loadFixture(deployEquityFixture);
+    await vesting.defineLinearEquityClass(LINEAR, 1200n, 300, 1200);
+    await vesting.setEquityClassBudget(LINEAR, 1200n);
+    await vesting.grantEquity(other.address, LINEAR);
+    const { startTime } = await vesting.getGrant(other.address, 0);
+
+    // the claim is mined in the next block, one second before the cliff ends
+    await time.increaseTo(startTime + 298n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 0)).to.equal(0n);
+    await expect(vesting.connect(other).claimGrantVestedTokens(0))
+      .to.be.revertedWithCustomError(vesting, "CliffPeriodNotMet");
+
+    await time.increaseTo(startTime + 600n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 0)).to.equal(600n);
+
+    await time.increaseTo(startTime + 5000n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 0)).to.equal(1200n);
+  });
+
+  it("vests a custom grant at each milestone", async function () {
+    const { vesting, other } = await loadFixture(deployEquityFixture);
+    await vesting.defineCustomEquityClass(CUSTOM, 1000n, [100, 200, 400], [1000, 5000, 10000]);
+    await vesting.setEquityClassBudget(CUSTOM, 1000n);
+    await vesting.grantEquity(other.address, CUSTOM);
+    const { startTime } = await vesting.getGrant(other.address, 0);
+
+    // the first milestone is the cliff
+    expect(await vesting.getNextGrantVestingAmount(other.address, 0)).to.deep.equal([100n, startTime + 100n]);
+
+    await time.increaseTo(startTime + 199n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 0)).to.equal(100n);
+    expect(await vesting.getNextGrantVestingAmount(other.address, 0)).to.deep.equal([400n, startTime + 200n]);
+
+    await time.increaseTo(startTime + 399n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 0)).to.equal(500n);
+
+    await time.increaseTo(startTime + 400n);
+    expect(await vesting.calculateGrantVestedTokens(other.address, 0)).to.equal(1000n);
+    expect(await vesting.getNextGrantVestingAmount(other.address, 0)).to.deep.equal([0n, 0n]);
+  });
+
+  it("rejects schedules that are out of order or don't end fully vested", async function () {
+    const { vesting } = await loadFixture(deployEquityFixture);
+
+    await expect(vesting.defineLinearEquityClass(LINEAR, 1200n, 1300, 1200))
+      .to.be.revertedWithCustomError(vesting, "InvalidEquityClass")
+      .withArgs("Cliff exceeds vesting duration");
+    await expect(vesting.defineCustomEquityClass(CUSTOM, 1000n, [100, 200], [5000, 9000]))
+      .to.be.revertedWithCustomError(vesting, "InvalidEquityClass")
+      .withArgs("Schedule must end at 100%");
+    await expect(vesting.defineCustomEquityClass(CUSTOM, 1000n, [200, 100], [5000, 10000]))
+      .to.be.revertedWithCustomError(vesting, "InvalidVestingParameters");
+    await expect(vesting.defineCustomEquityClass(CUSTOM, 1000n, [100, 200, 300], [6000, 5000, 10000]))
+      .to.be.revertedWithCustomError(vesting, "InvalidVestingParameters");
+  });
+});
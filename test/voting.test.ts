@@ -0,0 +1,54 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployContractsFixture, deployEquityFixture } from "./fixtures";
+
+async function unvestedVotesFixture() {
+  const fixture = await deployContractsFixture();
+  await fixture.token.setUnvestedVotesEnabled(true);
+  await fixture.token.connect(fixture.employee).delegate(fixture.employee.address);
+  await fixture.vesting.grantEquity(fixture.employee.address, ENG);
+  return fixture;
+}
+
+describe("voting power", function () {
+  it("counts unvested tokens as votes across grant, claim and termination", async function () {
+    const { token, vesting, employee } = await loadFixture(unvestedVotesFixture);
+    const { startTime } = await vesting.getGrant(employee.address, 0);
+    expect(await token.unvestedBalances(employee.address)).to.equal(1000n);
+    expect(await token.getVotes(employee.address)).to.equal(1000n);
+
+    // claiming moves tokens from the unvested balance to the wallet without changing the votes
+    await time.increase(150);
+    await vesting.connect(employee).claimVestedTokens();
+    expect(await token.unvestedBalances(employee.address)).to.equal(750n);
+    expect(await token.getVotes(employee.address)).to.equal(1000n);
+
+    await vesting.terminateEmployee(employee.address, startTime + 150n);
+    expect(await token.unvestedBalances(employee.address)).to.equal(0n);
+    expect(await token.totalUnvestedBalance()).to.equal(0n);
+    expect(await token.getVotes(employee.address)).to.equal(250n);
+  });
+
+  it("moves unvested votes with the employee's delegation", async function () {
+    const { token, vesting, employee, other } = await loadFixture(unvestedVotesFixture);
+    await token.connect(employee).delegate(other.address);
+    expect(await token.getVotes(employee.address)).to.equal(0n);
+    expect(await token.getVotes(other.address)).to.equal(1000n);
+
+    await vesting.grantEquity(employee.address, ENG);
+    expect(await token.getVotes(other.address)).to.equal(2000n);
+  });
+
+  it("tracks unvested balances without votes unless enabled before the first grant", async function () {
+    const { token, employee } = await loadFixture(deployEquityFixture);
+    await token.connect(employee).delegate(employee.address);
+
+    expect(await token.unvestedBalances(employee.address)).to.equal(1000n);
+    expect(await token.getVotes(employee.address)).to.equal(0n);
+    await expect(token.setUnvestedVotesEnabled(true))
+      .to.be.revertedWithCustomError(token, "UnvestedVotesLocked")
+      .withArgs(1000n);
+    await expect(token.updateUnvestedBalance(employee.address, 0n))
+      .to.be.revertedWith("Only the vesting contract can update unvested balances");
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ENG, deployEquityFixture } from "./fixtures";
+
+describe("wallet recovery", function () {
+  it("moves an employee's grants to a new wallet through the approval queue", async function () {
+    const { token, vesting, approvalQueue, employee, other, approver } = await loadFixture(deployEquityFixture);
+    await time.increase(150);
+    await vesting.connect(employee).claimVestedTokens();
+
+    // moving equity always takes two people, even with approvals turned off
+    await expect(vesting.migrateGrants(employee.address, other.address))
+      .to.be.revertedWithCustomError(vesting, "ApprovalRequired");
+
+    await approvalQueue.propose(vesting.interface.encodeFunctionData("migrateGrants", [employee.address, other.address]));
+    await approvalQueue.connect(approver).approve(0);
+    await expect(approvalQueue.execute(0))
+      .to.emit(vesting, "GrantsMigrated")
+      .withArgs(employee.address, other.address, 1);
+
+    expect(await vesting.getGrantCount(employee.address)).to.equal(0n);
+    const grant = await vesting.getGrant(other.address, 0);
+    expect([grant.employee, grant.totalTokens, grant.claimedTokens]).to.deep.equal([other.address, 1000n, 250n]);
+    expect(await token.unvestedBalances(employee.address)).to.equal(0n);
+    expect(await token.unvestedBalances(other.address)).to.equal(750n);
+
+    await expect(vesting.grantEquity(employee.address, ENG))
+      .to.be.revertedWithCustomError(vesting, "WalletMigrated")
+      .withArgs(employee.address);
+  });
+
+  it("refuses to move grants onto a wallet that already has some", async function () {
+    const { vesting, approvalQueue, employee, other, approver } = await loadFixture(deployEquityFixture);
+    await vesting.grantEquity(other.address, ENG);
+
+    await approvalQueue.propose(vesting.interface.encodeFunctionData("migrateGrants", [employee.address, other.address]));
+    await approvalQueue.connect(approver).approve(0);
+    await expect(approvalQueue.execute(0))
+      .to.be.revertedWithCustomError(vesting, "DestinationHasGrants")
+      .withArgs(other.address);
+  });
+});